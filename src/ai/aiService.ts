@@ -1,5 +1,10 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as dotenv from 'dotenv';
+import { AIReply, AIStats, FinanceIntent } from '../types';
+import { FinanceToolExecutor, READ_TOOLS, REGISTER_VALUE_TOOL } from './financeTools';
+import { createLLMProvider, getErrorStatus, LLMMessage, LLMProvider } from './llmProvider';
+import { DateHelper } from '../utils/dateHelper';
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { JsonStore } from '../utils/jsonStore';
 
 dotenv.config();
 
@@ -7,72 +12,58 @@ dotenv.config();
  * Mensagem no histórico de conversa
  */
 interface ChatMessage {
-	role: 'system' | 'user' | 'assistant';
+	role: 'user' | 'assistant';
 	content: string;
 }
 
 /**
- * Contexto de conversa por usuário/chat
+ * Contexto de conversa por usuário/chat (persistido em data/conversations.json)
  */
 interface ConversationContext {
-	chatId: string;
-	messages: ChatMessage[];
-	lastActivity: Date;
+	summary: string; // Resumo das mensagens antigas (preferências, fatos sobre o usuário)
+	messages: ChatMessage[]; // Mensagens recentes, na íntegra
+	lastActivity: string; // ISO
 }
 
 /**
- * Serviço de integração com IA (Google Gemini)
+ * Serviço de integração com IA (provedor configurado em LLM_PROVIDER)
  * Gerencia conversas inteligentes quando comandos não são reconhecidos
  */
 export class AIService {
-	private gemini: GoogleGenerativeAI | null = null;
-	private isEnabled: boolean = false;
-	private conversations: Map<string, ConversationContext> = new Map();
-	private readonly maxHistorySize = 10; // Mantém últimas 10 mensagens
-	private readonly contextTimeout = 30 * 60 * 1000; // 30 minutos
-
-	constructor() {
-		this.initialize();
-	}
-
-	/**
-	 * Inicializa o serviço de IA
-	 */
-	private initialize() {
-		console.log('🤖 Inicializando Google Gemini...');
-		this.initializeGemini();
-	}
+	private provider: LLMProvider | null;
+	private conversations = new JsonStore<Record<string, ConversationContext>>(
+		'conversations.json',
+		{}
+	);
+	private readonly maxHistorySize = 10; // Acima disso, as mais antigas viram resumo
+	private readonly recentMessages = 6; // Mensagens mantidas na íntegra após o resumo
+	private readonly maxSummaryLength = 1500;
+	private readonly maxToolRounds = 5; // Consultas encadeadas por mensagem
+	private compacting = new Set<string>(); // Chats com resumo em andamento
 
 	/**
-	 * Inicializa Google Gemini (GRATUITO!)
+	 * @param getSheetUpdater planilha de cada chat, usada nas consultas da IA
+	 * (sem ela, a IA só conversa e registra valores)
+	 * @param provider modelo de linguagem (padrão: o configurado no ambiente)
 	 */
-	private initializeGemini() {
-		const apiKey = process.env.GEMINI_API_KEY;
-
-		if (!apiKey || apiKey === '') {
-			console.log('⚠️  Gemini desabilitado: GEMINI_API_KEY não configurada');
-			console.log('💡 Obtenha uma chave GRATUITA em: https://makersuite.google.com/app/apikey');
-			this.isEnabled = false;
-			return;
-		}
-
-		try {
-			this.gemini = new GoogleGenerativeAI(apiKey);
-			this.isEnabled = true;
-			console.log('✅ Google Gemini inicializado com sucesso (GRATUITO!)');
-		} catch (error) {
-			console.error('❌ Erro ao inicializar Gemini:', error);
-			this.isEnabled = false;
+	constructor(
+		private getSheetUpdater: ((chatId: string) => SheetUpdater) | null = null,
+		provider: LLMProvider | null = createLLMProvider()
+	) {
+		this.provider = provider;
+
+		if (provider) {
+			console.log(`✅ IA inicializada: ${provider.name} (${provider.model})`);
+		} else {
+			console.log('⚠️  IA desabilitada: configure LLM_PROVIDER ou GEMINI_API_KEY');
 		}
 	}
 
-
-
 	/**
 	 * Verifica se o serviço de IA está habilitado
 	 */
 	public isActive(): boolean {
-		return this.isEnabled;
+		return this.provider !== null;
 	}
 
 	/**
@@ -97,10 +88,12 @@ O bot principal registra transações financeiras em uma planilha Google Sheets
 - "ajuda" - Lista comandos disponíveis
 
 **QUANDO O USUÁRIO FALAR COM VOCÊ:**
-- Se ele perguntar sobre finanças ou quiser registrar algo, explique gentilmente como usar os comandos
+- Se ele disser que gastou, pagou, comprou ou recebeu um valor, chame a função registrar_valor (uma chamada por valor)
+- Se faltar o valor ou não der para saber se é gasto ou entrada, pergunte antes de registrar
+- Se perguntar sobre as finanças dele ("quanto gastei em novembro?", "qual meu pior dia?"), use as funções de consulta e responda com os números reais
+- NUNCA invente valores: se a consulta falhar, diga que não conseguiu ler a planilha
 - Se for apenas conversa casual ("oi", "como vai"), responda naturalmente
 - Se pedir ajuda financeira, dê dicas gerais mas sugira usar os comandos do bot
-- NUNCA tente executar comandos financeiros - você apenas conversa
 
 **TOM DE VOZ:**
 Amigável, informal mas respeitoso. Pense como um assistente prestativo do WhatsApp.
@@ -109,35 +102,30 @@ Amigável, informal mas respeitoso. Pense como um assistente prestativo do Whats
 Usuário: "oi"
 Você: "Oi! 😊 Tudo bem? Estou aqui pra te ajudar com suas finanças ou bater um papo! Como posso ajudar?"
 
-Usuário: "gastei 432 reais hoje"
-Você: "Entendi que você gastou R$ 432 hoje! Para registrar isso, use: \n\n💸 saida 432\n\nou\n\n🍽️ diario 432\n\nDepende se é uma saída específica ou gasto diário. Digite 'ajuda' pra ver todos os comandos! ✨"
+Usuário: "gastei 432 reais no mercado ontem"
+Você: (chama registrar_valor com tipo "diario", valor 432, data "ontem", descricao "mercado")
+
+Usuário: "estou gastando mais que em outubro?"
+Você: (consulta os totais do mês atual e de outubro) "Sim 😬 Até agora são R$ 2.340 de saída total, contra R$ 1.980 em outubro inteiro."
+
+Usuário: "paguei a luz"
+Você: "Quanto foi a conta de luz? 💡 Me diz o valor que eu registro pra você!"
 
 Usuário: "como economizar dinheiro?"
 Você: "Ótima pergunta! 💰 Algumas dicas rápidas:\n\n✓ Registre TODOS os gastos (use o comando 'diario')\n✓ Confira o 'resumo mes' regularmente\n✓ Use 'performance' pra ver se está economizando\n\nQuer saber como usar esses comandos? Digite 'ajuda'!"`;
 	}
 
 	/**
-	 * Obtém ou cria contexto de conversa para um chat
+	 * Obtém o contexto de conversa de um chat (vazio se ainda não conversou)
 	 */
 	private getConversationContext(chatId: string): ConversationContext {
-		let context = this.conversations.get(chatId);
-
-		// Se não existe ou expirou, cria novo
-		if (!context || Date.now() - context.lastActivity.getTime() > this.contextTimeout) {
-			context = {
-				chatId,
-				messages: [
-					{
-						role: 'system',
-						content: this.getSystemPrompt(),
-					},
-				],
-				lastActivity: new Date(),
-			};
-			this.conversations.set(chatId, context);
-		}
-
-		return context;
+		return (
+			this.conversations.read()[chatId] || {
+				summary: '',
+				messages: [],
+				lastActivity: new Date().toISOString(),
+			}
+		);
 	}
 
 	/**
@@ -146,156 +134,265 @@ Você: "Ótima pergunta! 💰 Algumas dicas rápidas:\n\n✓ Registre TODOS os g
 	private addToHistory(chatId: string, role: 'user' | 'assistant', content: string) {
 		const context = this.getConversationContext(chatId);
 
-		// Adiciona mensagem
-		context.messages.push({ role, content });
-		context.lastActivity = new Date();
-
-		// Mantém apenas últimas N mensagens (além do system prompt)
-		if (context.messages.length > this.maxHistorySize + 1) {
-			// +1 por causa do system prompt
-			context.messages = [
-				context.messages[0], // Mantém system prompt
-				...context.messages.slice(-(this.maxHistorySize)),
-			];
+		this.conversations.update((data) => {
+			data[chatId] = {
+				...context,
+				messages: [...context.messages, { role, content }],
+				lastActivity: new Date().toISOString(),
+			};
+		});
+	}
+
+	/**
+	 * Resume as mensagens antigas quando o histórico passa do limite
+	 * Assim a IA lembra de fatos ("meu salário cai dia 5") sem enviar a conversa inteira
+	 *
+	 * Roda depois da resposta: mensagens que chegam durante o resumo são mantidas,
+	 * e se o chat for esquecido no meio, o resumo é descartado
+	 */
+	private async compactHistory(chatId: string): Promise<void> {
+		const context = this.getConversationContext(chatId);
+		if (
+			!this.provider ||
+			this.compacting.has(chatId) ||
+			context.messages.length <= this.maxHistorySize
+		) {
+			return;
 		}
 
-		this.conversations.set(chatId, context);
+		const older = context.messages.slice(0, -this.recentMessages);
+		this.compacting.add(chatId);
+
+		try {
+			const transcript = older
+				.map((m) => `${m.role === 'user' ? 'Usuário' : 'Assistente'}: ${m.content}`)
+				.join('\n');
+			const result = await this.provider.chat({
+				systemPrompt: `Você mantém a memória de um assistente financeiro no WhatsApp.
+Atualize o resumo com os fatos úteis da conversa: preferências, datas (salário, contas),
+metas e combinados com o usuário. Ignore cumprimentos e conversa casual.
+Responda apenas com o resumo em tópicos curtos, em português.`,
+				messages: [
+					{
+						role: 'user',
+						content: `RESUMO ATUAL:\n${context.summary || '(vazio)'}\n\nCONVERSA:\n${transcript}`,
+					},
+				],
+				tools: [],
+			});
+
+			this.conversations.update((data) => {
+				const current = data[chatId];
+				if (!current || !this.startsWith(current.messages, older)) {
+					return;
+				}
+
+				// Remove só o trecho resumido (o que chegou depois continua na íntegra)
+				data[chatId] = {
+					...current,
+					summary: result.text.trim().slice(0, this.maxSummaryLength),
+					messages: current.messages.slice(older.length),
+				};
+			});
+		} catch (error) {
+			// Tenta resumir de novo na próxima mensagem; evita crescer sem limite
+			console.error('Erro ao resumir conversa:', error);
+			this.conversations.update((data) => {
+				const current = data[chatId];
+				if (current && current.messages.length > this.maxHistorySize * 2) {
+					current.messages = current.messages.slice(-this.maxHistorySize);
+				}
+			});
+		} finally {
+			this.compacting.delete(chatId);
+		}
 	}
 
 	/**
-	 * Limpa histórico de conversa de um chat
+	 * Verifica se o histórico ainda começa com as mensagens resumidas
 	 */
-	public clearHistory(chatId: string) {
-		this.conversations.delete(chatId);
+	private startsWith(messages: ChatMessage[], prefix: ChatMessage[]): boolean {
+		return (
+			messages.length >= prefix.length &&
+			prefix.every(
+				(message, index) =>
+					messages[index].role === message.role && messages[index].content === message.content
+			)
+		);
 	}
 
 	/**
-	 * Limpa históricos antigos (mais de 30 minutos inativos)
+	 * Limpa histórico e resumo de conversa de um chat ("esquecer")
 	 */
-	private cleanupOldConversations() {
-		const now = Date.now();
-		for (const [chatId, context] of this.conversations.entries()) {
-			if (now - context.lastActivity.getTime() > this.contextTimeout) {
-				this.conversations.delete(chatId);
-			}
-		}
+	public clearHistory(chatId: string) {
+		this.conversations.update((data) => {
+			delete data[chatId];
+		});
 	}
 
 	/**
 	 * Gera resposta usando a IA
+	 * Quando a mensagem descreve um registro, retorna os registros em intents
+	 * (a execução e validação ficam com o MessageHandler)
 	 */
-	async generateResponse(message: string, chatId: string = 'default'): Promise<string> {
+	async generateResponse(message: string, chatId: string = 'default'): Promise<AIReply> {
 		// Se IA não está habilitada, retorna mensagem padrão
 		if (!this.isActive()) {
-			return `⚠️ Comando não reconhecido.
+			return {
+				text: `⚠️ Comando não reconhecido.
 
 💡 Digite "ajuda" para ver os
-   comandos disponíveis.`;
+   comandos disponíveis.`,
+				intents: [],
+			};
 		}
 
 		try {
-			// Limpa conversas antigas periodicamente
-			this.cleanupOldConversations();
-
-			// Obtém contexto da conversa
-			const context = this.getConversationContext(chatId);
-
 			// Adiciona mensagem do usuário ao histórico
 			this.addToHistory(chatId, 'user', message);
 
-			// Chama o Gemini
-			const aiResponse = await this.callGemini(context.messages);
+			// Chama o modelo com o resumo e as mensagens recentes
+			const reply = await this.callModel(this.getConversationContext(chatId), chatId);
 
-			// Adiciona resposta da IA ao histórico
-			this.addToHistory(chatId, 'assistant', aiResponse);
+			// Adiciona resposta da IA ao histórico (registros entram como nota)
+			this.addToHistory(chatId, 'assistant', reply.text || this.describeIntents(reply.intents));
 
-			return aiResponse;
-		} catch (error: any) {
+			// Resume em segundo plano, sem atrasar a resposta
+			this.compactHistory(chatId).catch((error) => console.error('Erro ao resumir conversa:', error));
+
+			return reply;
+		} catch (error) {
 			console.error('❌ Erro ao gerar resposta da IA:', error);
+			const status = getErrorStatus(error);
 
 			// Erros específicos
-			if (error?.status === 401) {
-				return `⚠️ Erro de autenticação da IA.
+			if (status === 401) {
+				return {
+					text: `⚠️ Erro de autenticação da IA.
 
-Verifique a OPENAI_API_KEY.
+Verifique a chave da IA
+(${this.provider?.name}).
 
 💡 Digite "ajuda" para ver
-   comandos disponíveis.`;
+   comandos disponíveis.`,
+					intents: [],
+				};
 			}
 
-			if (error?.status === 429) {
-				return `⚠️ Limite de uso da IA atingido.
+			if (status === 429) {
+				return {
+					text: `⚠️ Limite de uso da IA atingido.
 
 Tente novamente em alguns
 instantes.
 
 💡 Digite "ajuda" para ver
-   comandos disponíveis.`;
+   comandos disponíveis.`,
+					intents: [],
+				};
 			}
 
 			// Erro genérico
-			return `⚠️ Comando não reconhecido.
+			return {
+				text: `⚠️ Comando não reconhecido.
 
 💡 Digite "ajuda" para ver os
-   comandos disponíveis.`;
+   comandos disponíveis.`,
+				intents: [],
+			};
 		}
 	}
 
 	/**
-	 * Chama Google Gemini API (GRATUITO!)
+	 * Envia a conversa ao modelo, executando as consultas pedidas por ele
 	 */
-	private async callGemini(messages: ChatMessage[]): Promise<string> {
-		if (!this.gemini) throw new Error('Gemini não inicializado');
+	private async callModel(context: ConversationContext, chatId: string): Promise<AIReply> {
+		if (!this.provider) throw new Error('IA não inicializada');
 
-		const model = this.gemini.getGenerativeModel({
-			model: process.env.GEMINI_MODEL || 'gemini-1.5-pro',
-		});
+		// Consultas só ficam disponíveis quando há planilha associada
+		const executor = this.getSheetUpdater
+			? new FinanceToolExecutor(this.getSheetUpdater(chatId))
+			: null;
+		const tools = executor ? [REGISTER_VALUE_TOOL, ...READ_TOOLS] : [REGISTER_VALUE_TOOL];
 
-		// Gemini não usa system prompt da mesma forma
-		// Vamos adicionar o system prompt como primeira mensagem do usuário
-		const systemPrompt = messages.find((m) => m.role === 'system')?.content || '';
-		const userMessages = messages.filter((m) => m.role !== 'system');
-
-		// Monta histórico para Gemini
-		const history = userMessages.slice(0, -1).map((msg) => ({
-			role: msg.role === 'user' ? 'user' : 'model',
-			parts: [{ text: msg.content }],
-		}));
-
-		// Última mensagem
-		const lastMessage = userMessages[userMessages.length - 1]?.content || '';
-
-		// Inicia chat
-		const chat = model.startChat({
-			history: [
-				{ role: 'user', parts: [{ text: systemPrompt }] },
-				{ role: 'model', parts: [{ text: 'Entendido! Estou pronto para ajudar.' }] },
-				...history,
-			],
-		});
+		// A data de hoje permite resolver "ontem", "sexta passada" etc.
+		const today = DateHelper.formatDate(DateHelper.getBrasiliaTime());
+		const memory = context.summary
+			? `\n\n**O QUE VOCÊ JÁ SABE SOBRE O USUÁRIO:**\n${context.summary}`
+			: '';
+		const systemPrompt = `${this.getSystemPrompt()}${memory}
+
+**HOJE:** ${today}`;
 
-		const result = await chat.sendMessage(lastMessage);
-		return result.response.text() || 'Desculpe, não consegui gerar uma resposta.';
+		const messages: LLMMessage[] = context.messages.map((m) => ({ ...m }));
+
+		for (let round = 0; ; round++) {
+			const result = await this.provider.chat({ systemPrompt, messages, tools });
+
+			// Registros encerram a conversa: quem executa é o MessageHandler
+			const intents = result.toolCalls
+				.filter((call) => call.name === REGISTER_VALUE_TOOL.name)
+				.map((call) => this.toIntent(call.args));
+
+			if (intents.length > 0) {
+				return { text: '', intents };
+			}
+
+			const queries = result.toolCalls.filter((call) => FinanceToolExecutor.isReadTool(call.name));
+			if (queries.length === 0 || !executor || round >= this.maxToolRounds) {
+				return {
+					text: result.text || 'Desculpe, não consegui gerar uma resposta.',
+					intents: [],
+				};
+			}
+
+			// Executa as consultas e devolve os resultados para o modelo montar a resposta
+			messages.push({ role: 'assistant', content: result.text, toolCalls: queries });
+			for (const call of queries) {
+				messages.push({ role: 'tool', call, result: await executor.execute(call.name, call.args) });
+			}
+		}
 	}
 
+	/**
+	 * Converte os argumentos da chamada de função em registro
+	 * (os valores são validados depois pelo MessageParser)
+	 */
+	private toIntent(args: Record<string, unknown>): FinanceIntent {
+		return {
+			type: String(args.tipo ?? ''),
+			value: Number(args.valor),
+			date: typeof args.data === 'string' ? args.data : undefined,
+			description: typeof args.descricao === 'string' ? args.descricao : undefined,
+		};
+	}
 
+	/**
+	 * Resumo dos registros para o histórico da conversa
+	 */
+	private describeIntents(intents: FinanceIntent[]): string {
+		const items = intents.map((intent) =>
+			[intent.type, intent.value, intent.description, intent.date].filter(Boolean).join(' ')
+		);
+		return `[registrado: ${items.join('; ')}]`;
+	}
 
 	/**
 	 * Reseta todas as conversas (útil para testes)
 	 */
 	public resetAllConversations() {
-		this.conversations.clear();
+		this.conversations.write({});
 	}
 
 	/**
 	 * Retorna estatísticas de uso
 	 */
-	public getStats() {
+	public getStats(): AIStats {
 		return {
-			isEnabled: this.isEnabled,
-			provider: 'gemini',
-			activeConversations: this.conversations.size,
-			model: process.env.GEMINI_MODEL || 'gemini-1.5-pro',
+			isEnabled: this.isActive(),
+			provider: this.provider?.name || 'none',
+			activeConversations: Object.keys(this.conversations.read()).length,
+			model: this.provider?.model || '',
 		};
 	}
 }
@@ -0,0 +1,81 @@
+import { LLMChatRequest, LLMChatResult, LLMProvider } from './llmProvider';
+
+/**
+ * Modelo falso e determinístico, para testes e desenvolvimento offline
+ *
+ * Usa as respostas enfileiradas em `enqueue` e, sem elas, regras simples:
+ * - "gastei/paguei/comprei/recebi N ..." → chama registrar_valor
+ * - "quanto gastei" → chama consultar_totais_mes (se disponível)
+ * - resultado de consulta → resume o resultado em texto
+ * - qualquer outra mensagem → ecoa o texto
+ */
+export class FakeLLMProvider implements LLMProvider {
+	readonly name = 'fake';
+	readonly model = 'fake';
+	readonly received: LLMChatRequest[] = [];
+	private script: LLMChatResult[] = [];
+
+	/**
+	 * Enfileira respostas fixas (usadas antes das regras, na ordem)
+	 */
+	enqueue(...results: LLMChatResult[]): void {
+		this.script.push(...results);
+	}
+
+	async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+		this.received.push(request);
+
+		const scripted = this.script.shift();
+		if (scripted) {
+			return scripted;
+		}
+
+		const last = request.messages[request.messages.length - 1];
+		const hasTool = (name: string) => request.tools.some((tool) => tool.name === name);
+
+		if (last?.role === 'tool') {
+			return { text: `📊 ${last.call.name}: ${JSON.stringify(last.result)}`, toolCalls: [] };
+		}
+
+		const content = last?.role === 'user' ? last.content : '';
+		const lower = content.toLowerCase();
+
+		// Uma chamada por trecho ("paguei 120 de luz e recebi 300 de um freela")
+		const entries = lower
+			.split(/\s+e\s+(?=gastei|paguei|comprei|recebi)/)
+			.map((part) => part.match(/\b(gastei|paguei|comprei|recebi)\s+(?:r\$\s*)?(\d+(?:[.,]\d+)?)(.*)$/))
+			.filter((match): match is RegExpMatchArray => match !== null);
+
+		if (entries.length > 0 && hasTool('registrar_valor')) {
+			return {
+				text: '',
+				toolCalls: entries.map((entry, index) => {
+					const tipo = entry[1] === 'recebi' ? 'entrada' : entry[1] === 'paguei' ? 'saida' : 'diario';
+					const data = entry[3].match(/\b(ontem|amanha)\b/)?.[1];
+					const descricao = entry[3]
+						.replace(/\b(reais|ontem|hoje|amanha)\b/g, '')
+						.replace(/\s+/g, ' ')
+						.trim()
+						.replace(/^(de|do|da|no|na|em)\s+/, '');
+
+					return {
+						id: `fake-${index + 1}`,
+						name: 'registrar_valor',
+						args: {
+							tipo,
+							valor: parseFloat(entry[2].replace(',', '.')),
+							...(data ? { data } : {}),
+							...(descricao ? { descricao } : {}),
+						},
+					};
+				}),
+			};
+		}
+
+		if (lower.includes('quanto gastei') && hasTool('consultar_totais_mes')) {
+			return { text: '', toolCalls: [{ id: 'fake-1', name: 'consultar_totais_mes', args: {} }] };
+		}
+
+		return { text: `🤖 ${content}`, toolCalls: [] };
+	}
+}
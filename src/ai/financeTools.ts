@@ -0,0 +1,181 @@
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { DateHelper } from '../utils/dateHelper';
+import { ToolDefinition } from './llmProvider';
+
+/**
+ * Ferramenta que a IA usa para registrar valores ditos em linguagem natural
+ * ("gastei 432 reais no mercado ontem"). A execução fica com o MessageHandler,
+ * que valida os dados com as mesmas regras do MessageParser.
+ */
+export const REGISTER_VALUE_TOOL: ToolDefinition = {
+	name: 'registrar_valor',
+	description:
+		'Registra uma movimentação financeira na planilha. Use quando o usuário informar que gastou, pagou, comprou ou recebeu um valor.',
+	parameters: {
+		type: 'object',
+		properties: {
+			tipo: {
+				type: 'string',
+				enum: ['entrada', 'saida', 'diario'],
+				description:
+					'entrada = dinheiro recebido (salário, venda, pix recebido); saida = contas e gastos fixos ou grandes (aluguel, luz, parcela); diario = gastos do dia a dia (mercado, comida, transporte, lazer)',
+			},
+			valor: {
+				type: 'number',
+				description: 'Valor em reais, positivo (ex: 432 ou 87.10)',
+			},
+			data: {
+				type: 'string',
+				description: 'Data do lançamento: "hoje", "ontem", "amanha" ou "dd/mm/aaaa"',
+			},
+			descricao: {
+				type: 'string',
+				description: 'Descrição curta do gasto/entrada (ex: "mercado", "uber", "salário")',
+			},
+		},
+		required: ['tipo', 'valor'],
+	},
+};
+
+/**
+ * Parâmetros de mês/ano usados pelas consultas
+ */
+const MONTH_PARAMETERS = {
+	mes: {
+		type: 'number',
+		description: 'Mês (1 a 12). Se omitido, usa o mês atual',
+	},
+	ano: {
+		type: 'number',
+		description: 'Ano com 4 dígitos. Se omitido, usa o ano atual',
+	},
+};
+
+/**
+ * Ferramentas somente leitura para a IA responder perguntas sobre as
+ * finanças do usuário com números reais da planilha
+ */
+export const READ_TOOLS: ToolDefinition[] = [
+	{
+		name: 'consultar_totais_mes',
+		description:
+			'Totais de um mês: entradas, saídas, diário, saída total (saídas + diário), performance (entradas - saída total), dias com registro e média diária.',
+		parameters: {
+			type: 'object',
+			properties: MONTH_PARAMETERS,
+		},
+	},
+	{
+		name: 'consultar_dias_mes',
+		description:
+			'Valores de cada dia de um mês (entrada, saída, diário e saldo). Use para achar o melhor/pior dia ou dias sem gastos.',
+		parameters: {
+			type: 'object',
+			properties: MONTH_PARAMETERS,
+		},
+	},
+	{
+		name: 'consultar_dia',
+		description: 'Entrada, saída, diário e saldo de um dia específico.',
+		parameters: {
+			type: 'object',
+			properties: {
+				data: {
+					type: 'string',
+					description: 'Data no formato dd/mm/aaaa',
+				},
+			},
+			required: ['data'],
+		},
+	},
+	{
+		name: 'relatorio_semana',
+		description: 'Relatório dos últimos 7 dias, já formatado para o WhatsApp.',
+		parameters: {
+			type: 'object',
+			properties: {},
+		},
+	},
+	{
+		name: 'relatorio_mes',
+		description: 'Relatório completo de um mês, já formatado para o WhatsApp.',
+		parameters: {
+			type: 'object',
+			properties: MONTH_PARAMETERS,
+		},
+	},
+];
+
+/**
+ * Executa as consultas da IA sobre a planilha de um chat
+ * Nenhuma ferramenta daqui altera a planilha
+ */
+export class FinanceToolExecutor {
+	constructor(private sheetUpdater: SheetUpdater) {}
+
+	/**
+	 * Verifica se a função é uma das consultas
+	 */
+	static isReadTool(name: string): boolean {
+		return READ_TOOLS.some((tool) => tool.name === name);
+	}
+
+	/**
+	 * Executa uma consulta e retorna o resultado para a IA
+	 * Erros viram { erro } para a IA explicar ao usuário em vez de inventar números
+	 */
+	async execute(name: string, args: Record<string, unknown>): Promise<object> {
+		try {
+			switch (name) {
+				case 'consultar_totais_mes': {
+					const { month, year } = this.resolveMonth(args);
+					const totals = await this.sheetUpdater.getMonthTotals(month, year);
+					return totals || { erro: `Sem dados para ${month}/${year}` };
+				}
+				case 'consultar_dias_mes': {
+					const { month, year } = this.resolveMonth(args);
+					const days = await this.sheetUpdater.getMonthDays(month, year);
+					return { mes: month, ano: year, dias: days.map(({ month, year, ...day }) => day) };
+				}
+				case 'consultar_dia': {
+					const text = String(args.data ?? '').trim();
+					if (!/^(hoje|ontem|amanha|amanhã|\d{1,2}\/\d{1,2}(\/\d{2,4})?)$/i.test(text)) {
+						return { erro: `Data inválida: ${text}` };
+					}
+					const date = DateHelper.parseDate(text);
+					const day = await this.sheetUpdater.getDayData(
+						date.getDate(),
+						date.getMonth() + 1,
+						date.getFullYear()
+					);
+					return day || { erro: 'Não foi possível ler o dia' };
+				}
+				case 'relatorio_semana':
+					return { relatorio: await this.sheetUpdater.getWeekReport() };
+				case 'relatorio_mes': {
+					const { month, year } = this.resolveMonth(args);
+					return { relatorio: await this.sheetUpdater.getCompleteMonthReport(month, year) };
+				}
+				default:
+					return { erro: `Função desconhecida: ${name}` };
+			}
+		} catch (error) {
+			console.error(`Erro na consulta ${name} da IA:`, error);
+			return { erro: 'Falha ao ler a planilha' };
+		}
+	}
+
+	/**
+	 * Mês/ano dos argumentos (padrão: mês atual)
+	 */
+	private resolveMonth(args: Record<string, unknown>): { month: number; year: number } {
+		const today = DateHelper.getBrasiliaTime();
+		const month = Number(args.mes);
+		const year = Number(args.ano);
+
+		return {
+			month: Number.isInteger(month) && month >= 1 && month <= 12 ? month : today.getMonth() + 1,
+			year: Number.isInteger(year) && year >= 2000 ? year : today.getFullYear(),
+		};
+	}
+}
@@ -0,0 +1,128 @@
+import { Content, FunctionDeclaration, GoogleGenerativeAI, Part, Schema, SchemaType } from '@google/generative-ai';
+import {
+	callWithRetry,
+	LLMChatRequest,
+	LLMChatResult,
+	LLMMessage,
+	LLMProvider,
+	LLMProviderConfig,
+	ToolDefinition,
+} from './llmProvider';
+
+/**
+ * Google Gemini (tier gratuito disponível)
+ */
+export class GeminiProvider implements LLMProvider {
+	readonly name = 'gemini';
+	readonly model: string;
+	private gemini: GoogleGenerativeAI;
+
+	constructor(private config: LLMProviderConfig) {
+		this.model = config.model || 'gemini-1.5-pro';
+		this.gemini = new GoogleGenerativeAI(config.apiKey || process.env.GEMINI_API_KEY || '');
+
+		if (!config.apiKey && !process.env.GEMINI_API_KEY) {
+			console.log('⚠️  GEMINI_API_KEY não configurada - as respostas da IA vão falhar');
+			console.log('💡 Obtenha uma chave GRATUITA em: https://makersuite.google.com/app/apikey');
+		}
+	}
+
+	async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+		const model = this.gemini.getGenerativeModel(
+			{
+				model: this.model,
+				tools:
+					request.tools.length > 0
+						? [{ functionDeclarations: request.tools.map((tool) => this.toFunctionDeclaration(tool)) }]
+						: undefined,
+			},
+			{ timeout: this.config.timeoutMs }
+		);
+
+		// Gemini não usa system prompt da mesma forma
+		// O system prompt vai como primeira mensagem do usuário
+		const contents: Content[] = [
+			{ role: 'user', parts: [{ text: request.systemPrompt }] },
+			{ role: 'model', parts: [{ text: 'Entendido! Estou pronto para ajudar.' }] },
+			...request.messages.map((message) => this.toContent(message)),
+		];
+
+		// O signal encerra a requisição no timeout (senão ela segue rodando após desistirmos)
+		const result = await callWithRetry(
+			(signal) => model.generateContent({ contents }, { signal }),
+			this.config
+		);
+
+		return {
+			text: result.response.functionCalls()?.length ? '' : result.response.text(),
+			toolCalls: (result.response.functionCalls() || []).map((call) => ({
+				name: call.name,
+				args: (call.args || {}) as Record<string, unknown>,
+			})),
+		};
+	}
+
+	/**
+	 * Converte a ferramenta (JSON Schema) para a declaração de função do Gemini
+	 */
+	private toFunctionDeclaration(tool: ToolDefinition): FunctionDeclaration {
+		const declaration: FunctionDeclaration = { name: tool.name, description: tool.description };
+		if (!tool.parameters) {
+			return declaration;
+		}
+
+		const properties: Record<string, Schema> = {};
+		Object.entries(tool.parameters.properties).forEach(([name, property]) => {
+			properties[name] = this.toSchema(property);
+		});
+
+		return {
+			...declaration,
+			parameters: { type: SchemaType.OBJECT, properties, required: tool.parameters.required },
+		};
+	}
+
+	/**
+	 * Converte um parâmetro simples (texto, com ou sem enum, número ou booleano)
+	 */
+	private toSchema(property: Record<string, unknown>): Schema {
+		const description = typeof property.description === 'string' ? property.description : undefined;
+
+		switch (property.type) {
+			case 'string':
+				return Array.isArray(property.enum)
+					? { type: SchemaType.STRING, format: 'enum', enum: property.enum.map(String), description }
+					: { type: SchemaType.STRING, description };
+			case 'number':
+				return { type: SchemaType.NUMBER, description };
+			case 'integer':
+				return { type: SchemaType.INTEGER, description };
+			case 'boolean':
+				return { type: SchemaType.BOOLEAN, description };
+			default:
+				throw new Error(`Tipo de parâmetro não suportado pelo Gemini: ${String(property.type)}`);
+		}
+	}
+
+	/**
+	 * Converte uma mensagem para o formato do Gemini
+	 */
+	private toContent(message: LLMMessage): Content {
+		switch (message.role) {
+			case 'user':
+				return { role: 'user', parts: [{ text: message.content }] };
+			case 'assistant': {
+				const parts: Part[] = message.content ? [{ text: message.content }] : [];
+				(message.toolCalls || []).forEach((call) =>
+					parts.push({ functionCall: { name: call.name, args: call.args } })
+				);
+				return { role: 'model', parts };
+			}
+			case 'tool':
+				return {
+					role: 'function',
+					parts: [{ functionResponse: { name: message.call.name, response: message.result } }],
+				};
+		}
+	}
+}
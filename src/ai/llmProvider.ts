@@ -0,0 +1,184 @@
+import * as dotenv from 'dotenv';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { FakeLLMProvider } from './fakeLLMProvider';
+
+dotenv.config();
+
+/**
+ * Ferramenta (função) que o modelo pode chamar
+ * Os parâmetros seguem JSON Schema, aceito por Gemini e pela API da OpenAI
+ */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters?: {
+		type: 'object';
+		properties: Record<string, Record<string, unknown>>;
+		required?: string[];
+	};
+}
+
+/**
+ * Chamada de função feita pelo modelo
+ */
+export interface LLMToolCall {
+	id?: string; // Exigido pela API da OpenAI para devolver o resultado
+	name: string;
+	args: Record<string, unknown>;
+}
+
+/**
+ * Mensagem da conversa enviada ao provedor
+ */
+export type LLMMessage =
+	| { role: 'user'; content: string }
+	| { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+	| { role: 'tool'; call: LLMToolCall; result: object };
+
+export interface LLMChatRequest {
+	systemPrompt: string;
+	messages: LLMMessage[];
+	tools: ToolDefinition[];
+}
+
+export interface LLMChatResult {
+	text: string;
+	toolCalls: LLMToolCall[];
+}
+
+/**
+ * Interface para provedores de modelo de linguagem (Gemini, OpenAI, Ollama...)
+ */
+export interface LLMProvider {
+	readonly name: string;
+	readonly model: string;
+
+	/**
+	 * Envia a conversa e retorna o texto e/ou as chamadas de função do modelo
+	 * Erros de HTTP devem trazer `status` (401, 429...) para mensagens específicas
+	 */
+	chat(request: LLMChatRequest): Promise<LLMChatResult>;
+}
+
+/**
+ * Configuração de um provedor, lida das variáveis <PREFIXO>_MODEL,
+ * <PREFIXO>_BASE_URL, <PREFIXO>_API_KEY, <PREFIXO>_TIMEOUT_MS e <PREFIXO>_MAX_RETRIES
+ */
+export interface LLMProviderConfig {
+	model: string;
+	baseUrl: string;
+	apiKey: string;
+	timeoutMs: number;
+	maxRetries: number;
+}
+
+export function readProviderConfig(
+	prefix: string,
+	defaults: Partial<LLMProviderConfig> = {}
+): LLMProviderConfig {
+	const env = (name: string) => (process.env[`${prefix}_${name}`] || '').trim();
+	const number = (name: string, fallback: number) => {
+		const parsed = parseInt(env(name));
+		return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+	};
+
+	return {
+		model: env('MODEL') || defaults.model || '',
+		baseUrl: (env('BASE_URL') || defaults.baseUrl || '').replace(/\/$/, ''),
+		apiKey: env('API_KEY') || defaults.apiKey || '',
+		timeoutMs: number('TIMEOUT_MS', defaults.timeoutMs ?? 30000),
+		maxRetries: number('MAX_RETRIES', defaults.maxRetries ?? 2),
+	};
+}
+
+/**
+ * Status HTTP trazido pelo erro do provedor (undefined se não houver)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+	if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+		return error.status;
+	}
+	return undefined;
+}
+
+/**
+ * Executa a chamada com limite de tempo e novas tentativas (espera exponencial)
+ * Só repete erros temporários: limite de uso (429), erro no servidor (5xx) e timeout
+ */
+export async function callWithRetry<T>(
+	call: (signal: AbortSignal) => Promise<T>,
+	config: Pick<LLMProviderConfig, 'timeoutMs' | 'maxRetries'>
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await call(AbortSignal.timeout(config.timeoutMs));
+		} catch (error) {
+			const status = getErrorStatus(error);
+			const isTimeout =
+				error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+			const isTemporary =
+				isTimeout || status === 429 || (status !== undefined && status >= 500 && status < 600);
+
+			if (!isTemporary || attempt >= config.maxRetries) {
+				throw error;
+			}
+
+			const delay = 1000 * 2 ** attempt;
+			console.log(`⏳ IA indisponível (${status || 'timeout'}), nova tentativa em ${delay}ms...`);
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+}
+
+/**
+ * Cria o provedor configurado em LLM_PROVIDER
+ * - gemini: Google Gemini (GEMINI_API_KEY) - padrão se a chave estiver configurada
+ * - openai: API da OpenAI ou qualquer endpoint compatível (OPENAI_BASE_URL)
+ * - ollama: servidor local do Ollama (OLLAMA_BASE_URL, padrão localhost:11434)
+ * - llamacpp: llama-server do llama.cpp (LLAMACPP_BASE_URL, padrão localhost:8080)
+ * - fake: respostas determinísticas, para testes
+ * Retorna null se nenhum estiver configurado (bot responde só aos comandos)
+ */
+export function createLLMProvider(): LLMProvider | null {
+	const provider = (process.env.LLM_PROVIDER || '').toLowerCase().trim();
+
+	switch (provider) {
+		case '':
+			return process.env.GEMINI_API_KEY ? new GeminiProvider(readProviderConfig('GEMINI')) : null;
+		case 'none':
+			return null;
+		case 'gemini':
+			return new GeminiProvider(readProviderConfig('GEMINI'));
+		case 'openai':
+			return new OpenAICompatibleProvider(
+				'openai',
+				readProviderConfig('OPENAI', { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' })
+			);
+		case 'ollama':
+			return new OpenAICompatibleProvider(
+				'ollama',
+				readProviderConfig('OLLAMA', {
+					baseUrl: 'http://localhost:11434/v1',
+					model: 'llama3.1',
+					timeoutMs: 120000,
+					maxRetries: 0,
+				})
+			);
+		case 'llamacpp':
+			return new OpenAICompatibleProvider(
+				'llamacpp',
+				readProviderConfig('LLAMACPP', {
+					baseUrl: 'http://localhost:8080/v1',
+					model: 'local',
+					timeoutMs: 120000,
+					maxRetries: 0,
+				})
+			);
+		case 'fake':
+			return new FakeLLMProvider();
+		default:
+			console.log(`⚠️  LLM_PROVIDER desconhecido: "${provider}". IA desativada.`);
+			return null;
+	}
+}
@@ -0,0 +1,118 @@
+import {
+	callWithRetry,
+	LLMChatRequest,
+	LLMChatResult,
+	LLMMessage,
+	LLMProvider,
+	LLMProviderConfig,
+} from './llmProvider';
+
+/**
+ * Resposta de /chat/completions (apenas os campos usados)
+ */
+interface ChatCompletionResponse {
+	choices?: {
+		message?: {
+			content?: string | null;
+			tool_calls?: { id: string; function: { name: string; arguments: string } }[];
+		};
+	}[];
+}
+
+/**
+ * API de chat compatível com OpenAI (/chat/completions)
+ * Atende a própria OpenAI e servidores locais como Ollama e llama.cpp (llama-server)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly model: string;
+
+	constructor(readonly name: string, private config: LLMProviderConfig) {
+		this.model = config.model;
+
+		if (name === 'openai' && !config.apiKey) {
+			console.log('⚠️  OPENAI_API_KEY não configurada - as respostas da IA vão falhar');
+		}
+	}
+
+	async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+		const body = {
+			model: this.model,
+			messages: [
+				{ role: 'system', content: request.systemPrompt },
+				...request.messages.map((message) => this.toMessage(message)),
+			],
+			tools:
+				request.tools.length > 0
+					? request.tools.map((tool) => ({ type: 'function', function: tool }))
+					: undefined,
+		};
+
+		const data = await callWithRetry(async (signal) => {
+			const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+				},
+				body: JSON.stringify(body),
+				signal,
+			});
+
+			if (!response.ok) {
+				const error = new Error(`Erro na IA ${this.name} (${response.status}): ${await response.text()}`);
+				throw Object.assign(error, { status: response.status });
+			}
+
+			return (await response.json()) as ChatCompletionResponse;
+		}, this.config);
+
+		const message = data.choices?.[0]?.message;
+
+		return {
+			text: (message?.content || '').trim(),
+			toolCalls: (message?.tool_calls || []).map((call) => ({
+				id: call.id,
+				name: call.function.name,
+				args: this.parseArguments(call.function.arguments),
+			})),
+		};
+	}
+
+	/**
+	 * Converte uma mensagem para o formato da OpenAI
+	 */
+	private toMessage(message: LLMMessage): object {
+		switch (message.role) {
+			case 'user':
+				return { role: 'user', content: message.content };
+			case 'assistant':
+				return {
+					role: 'assistant',
+					content: message.content || null,
+					tool_calls: message.toolCalls?.map((call) => ({
+						id: call.id,
+						type: 'function',
+						function: { name: call.name, arguments: JSON.stringify(call.args) },
+					})),
+				};
+			case 'tool':
+				return {
+					role: 'tool',
+					tool_call_id: message.call.id,
+					content: JSON.stringify(message.result),
+				};
+		}
+	}
+
+	/**
+	 * Argumentos chegam como texto JSON (modelos locais às vezes geram JSON inválido)
+	 */
+	private parseArguments(text: string): Record<string, unknown> {
+		try {
+			return JSON.parse(text || '{}');
+		} catch {
+			console.warn(`⚠️  Argumentos inválidos da IA ${this.name}:`, text);
+			return {};
+		}
+	}
+}
@@ -1,39 +1,164 @@
 import { MessageParser } from '../utils/messageParser';
 import { DateHelper } from '../utils/dateHelper';
 import { SheetUpdater } from '../sheets/sheetUpdater';
-import { UpdateRequest } from '../types';
+import { SpreadsheetRegistry } from '../sheets/spreadsheetRegistry';
+import { WriteQueue } from '../sheets/writeQueue';
+import { createFinanceStorage } from '../storage/financeStorage';
+import { BatchLine, ParsedMessage, UpdateRequest } from '../types';
 import { AIService } from '../ai/aiService';
+import { BudgetService } from '../budget/budgetService';
+import { RecurringService } from '../recurring/recurringService';
+import { ReceiptService } from '../receipt/receiptService';
+import { createReceiptReader } from '../receipt/receiptReader';
+import { PendingActions } from './pendingActions';
+import { ValueGuard } from './valueGuard';
+import { CategoryMatcher } from '../utils/categoryMatcher';
+import { CurrencyHelper } from '../utils/currencyHelper';
 
 /**
  * Processa mensagens recebidas e executa ações correspondentes
  */
 export class MessageHandler {
-	private sheetUpdater: SheetUpdater;
+	private spreadsheets: SpreadsheetRegistry;
+	private sheetUpdaters: Map<string, SheetUpdater> = new Map(); // Por ID de planilha
+	private readonly adminNumbers: string[];
 	private aiService: AIService;
+	private budgetService: BudgetService;
+	private recurringService: RecurringService;
+	private receiptService: ReceiptService | null = null;
+	private readonly receiptEntryType: UpdateRequest['type'];
+	private pendingActions: PendingActions;
+	private valueGuard: ValueGuard;
 
 	constructor() {
-		this.sheetUpdater = new SheetUpdater();
-		this.aiService = new AIService();
+		this.spreadsheets = new SpreadsheetRegistry();
+		this.adminNumbers = (process.env.ADMIN_NUMBERS || '')
+			.split(',')
+			.map((number) => number.replace(/\D/g, ''))
+			.filter((number) => number);
+
+		// Valida a planilha padrão já na inicialização
+		this.getSheetUpdater();
+
+		// Retoma a sincronização de valores que ficaram na fila antes de reiniciar
+		WriteQueue.getPendingKeys()
+			.filter((spreadsheetId) => spreadsheetId !== 'default')
+			.forEach((spreadsheetId) => this.getSheetUpdaterById(spreadsheetId));
+		this.aiService = new AIService((chatId) => this.getSheetUpdater(chatId));
+		this.budgetService = new BudgetService();
+		this.recurringService = new RecurringService();
+		this.pendingActions = new PendingActions();
+		this.valueGuard = new ValueGuard();
+
+		// Leitura de cupons fiscais (opcional)
+		const receiptReader = createReceiptReader();
+		if (receiptReader) {
+			this.receiptService = new ReceiptService(receiptReader);
+			console.log(`🧾 Leitura de cupons ativada (${receiptReader.name})`);
+		}
+		this.receiptEntryType = this.readReceiptEntryType();
 		
 		// Log do status da IA
 		if (this.aiService.isActive()) {
 			const stats = this.aiService.getStats();
-			console.log(`🤖 IA ativada - Modelo: ${stats.model}`);
+			console.log(`🤖 IA ativada - ${stats.provider} (${stats.model})`);
+		}
+	}
+
+	/**
+	 * Tipo dos cupons sem tipo na legenda (RECEIPT_ENTRY_TYPE, padrão: diario)
+	 */
+	private readReceiptEntryType(): UpdateRequest['type'] {
+		const value = (process.env.RECEIPT_ENTRY_TYPE || '').trim();
+		if (!value) return 'diario';
+
+		const type = CategoryMatcher.normalize(value);
+		if (type === 'entrada' || type === 'saida' || type === 'diario') {
+			return type;
+		}
+
+		console.warn(`⚠️  RECEIPT_ENTRY_TYPE inválido ("${value}"), usando "diario" (use entrada, saida ou diario)`);
+		return 'diario';
+	}
+
+	/**
+	 * Retorna o SheetUpdater da planilha do chat
+	 * Chats que compartilham a mesma planilha usam a mesma instância
+	 */
+	getSheetUpdater(chatId?: string): SheetUpdater {
+		return this.getSheetUpdaterById(this.spreadsheets.getSpreadsheetId(chatId || 'default'));
+	}
+
+	/**
+	 * SheetUpdater de uma planilha (criado na primeira vez)
+	 */
+	private getSheetUpdaterById(spreadsheetId: string): SheetUpdater {
+		let sheetUpdater = this.sheetUpdaters.get(spreadsheetId);
+		if (!sheetUpdater) {
+			sheetUpdater = new SheetUpdater(spreadsheetId);
+			this.sheetUpdaters.set(spreadsheetId, sheetUpdater);
+		}
+
+		return sheetUpdater;
+	}
+
+	/**
+	 * Verifica se o autor da mensagem está em ADMIN_NUMBERS
+	 * Compara só os dígitos (aceita "5511999999999" ou "5511999999999@s.whatsapp.net")
+	 */
+	private isAdmin(sender?: string): boolean {
+		const number = (sender || '').split('@')[0].split(':')[0].replace(/\D/g, '');
+		return number !== '' && this.adminNumbers.includes(number);
+	}
+
+	/**
+	 * Aplica os lançamentos recorrentes vencidos de todos os chats
+	 * Retorna, por chat, o resumo do que foi lançado
+	 */
+	async applyRecurringRules(): Promise<Map<string, string>> {
+		const results = new Map<string, string>();
+
+		for (const chatId of this.recurringService.getChatIds()) {
+			try {
+				const summary = await this.recurringService.applyDue(
+					chatId,
+					this.getSheetUpdater(chatId)
+				);
+				if (summary) {
+					results.set(chatId, summary);
+				}
+			} catch (error) {
+				console.error(`Erro ao aplicar recorrentes de ${chatId}:`, error);
+			}
 		}
+
+		return results;
 	}
 
 	/**
 	 * Processa uma mensagem e retorna a resposta
 	 */
-	async handleMessage(message: string, chatId?: string): Promise<string> {
+	async handleMessage(message: string, chatId?: string, sender?: string): Promise<string> {
 		try {
+			// Resposta a uma confirmação pendente ("sim"/"não")
+			const pendingResponse = await this.handlePendingAnswer(message, chatId || 'default', sender);
+			if (pendingResponse) {
+				return pendingResponse;
+			}
+
+			// Vários registros na mesma mensagem (um por linha ou separados por ";")
+			const batch = MessageParser.parseBatch(message);
+			if (batch && batch.some(({ parsed }) => parsed && this.isEntryCommand(parsed))) {
+				return await this.handleBatch(batch, chatId, sender);
+			}
+
 			// Faz parse da mensagem
 			const parsed = MessageParser.parse(message);
 
 			if (!parsed) {
 				// Se não reconheceu o comando, usa a IA
 				console.log('🤖 Comando não reconhecido, acionando IA...');
-				return await this.aiService.generateResponse(message, chatId || 'default');
+				return await this.handleWithAI(message, chatId, sender);
 			}
 
 			// Comando de ajuda
@@ -41,49 +166,128 @@ export class MessageHandler {
 				return this.getHelpMessage();
 			}
 
+			// Desfazer últimos registros deste chat
+			if (parsed.type === 'desfazer') {
+				return await this.getSheetUpdater(chatId).undoLast(chatId || 'default', parsed.value ?? 1);
+			}
+
+			// Planilha do chat (consulta para todos, alteração só para admins)
+			if (parsed.type === 'planilha') {
+				return await this.handleSpreadsheetCommand(parsed.target, chatId || 'default', sender);
+			}
+
+			// Valores que aguardam a planilha voltar para serem gravados
+			if (parsed.type === 'pendentes') {
+				return this.getSheetUpdater(chatId).getPendingReport();
+			}
+
+			// Gera a aba modelo na planilha do chat (só para admins)
+			if (parsed.type === 'configurar_planilha') {
+				if (!this.isAdmin(sender)) {
+					return `🔒 Apenas administradores
+podem configurar a planilha.
+
+💡 Configure ADMIN_NUMBERS
+   no .env.`;
+				}
+				return await this.getSheetUpdater(chatId).createTemplate();
+			}
+
+			// Apaga a memória da conversa com a IA deste chat
+			if (parsed.type === 'esquecer') {
+				this.aiService.clearHistory(chatId || 'default');
+				return `🧹 Pronto, esqueci nossa conversa.
+
+Os registros da planilha
+continuam intactos.`;
+			}
+
+			// Lançamentos recorrentes
+			if (parsed.type === 'recorrente') {
+				return this.recurringService.addRule(chatId || 'default', {
+					type: parsed.entryType!,
+					value: parsed.value!,
+					dueDay: parsed.dueDay!,
+					description: parsed.description || '',
+					category: parsed.category || '',
+				});
+			}
+
+			if (parsed.type === 'recorrentes') {
+				return this.recurringService.listRules(chatId || 'default');
+			}
+
+			if (parsed.type === 'cancelar_recorrente') {
+				return this.recurringService.removeRule(chatId || 'default', parsed.value || 0);
+			}
+
+			// Orçamentos mensais
+			if (parsed.type === 'orcamento') {
+				return this.budgetService.setBudget(chatId || 'default', parsed.target!, parsed.value!);
+			}
+
+			if (parsed.type === 'orcamentos') {
+				return await this.budgetService.getBudgetsReport(
+					chatId || 'default',
+					this.getSheetUpdater(chatId),
+					DateHelper.getMonth(parsed.date),
+					DateHelper.getYear(parsed.date)
+				);
+			}
+
 			// Comandos especiais
 			if (parsed.type === 'performance') {
-				return await this.sheetUpdater.getPerformanceReport();
+				return await this.getSheetUpdater(chatId).getPerformanceReport();
 			}
 
 			if (parsed.type === 'comparar') {
-				return await this.sheetUpdater.getComparisonReport();
+				return await this.getSheetUpdater(chatId).getComparisonReport();
 			}
 
 			if (parsed.type === 'previsao') {
-				return await this.sheetUpdater.getForecastReport();
+				return await this.getSheetUpdater(chatId).getForecastReport();
+			}
+
+			if (parsed.type === 'categorias') {
+				if (parsed.invalidDate) {
+					return `⚠️ Data inválida!
+
+O mês deve estar entre 1 e 12.
+
+💡 Ex: categorias 11/2025`;
+				}
+
+				const target = parsed.targetDate;
+				return await this.getSheetUpdater(chatId).getCategoryReport(
+					target ? DateHelper.getMonth(target) : undefined,
+					target ? DateHelper.getYear(target) : undefined
+				);
 			}
 
 			// Comando "saldo dd/mm"
 			if (parsed.type === 'saldo' && parsed.targetDate) {
-				return await this.sheetUpdater.getDayReport(parsed.targetDate);
+				return await this.getSheetUpdater(chatId).getDayReport(parsed.targetDate);
 			}
 
 			// Se é comando de consulta (saldo/resumo)
 			if (['hoje', 'semana', 'mes'].includes(parsed.type)) {
-				return await this.handleQueryCommand(parsed.type as 'hoje' | 'semana' | 'mes');
+				return await this.handleQueryCommand(
+					parsed.type as 'hoje' | 'semana' | 'mes',
+					this.getSheetUpdater(chatId)
+				);
 			}
 
 			// Se é comando de atualização (entrada/saída/diário)
-			// Extrai informações da data
-			const day = DateHelper.getDay(parsed.date);
-			const month = DateHelper.getMonth(parsed.date);
-			const year = DateHelper.getYear(parsed.date);
-
-			// Monta requisição de atualização
-			const updateRequest: UpdateRequest = {
-				type: parsed.type as 'entrada' | 'saida' | 'diario',
-				value: parsed.value!,
-				day,
-				month,
-				year,
-				shouldReplace: parsed.shouldReplace || false,
-			};
+			const updateRequest = this.buildUpdateRequest(parsed, chatId, sender);
 
-			// Atualiza planilha
-			const response = await this.sheetUpdater.updateValue(updateRequest);
+			// Valores grandes ou fora do padrão pedem confirmação antes de gravar
+			const confirmation = await this.requestConfirmationIfUnusual(updateRequest, chatId);
+			if (confirmation) {
+				return confirmation;
+			}
 
-			return response.message;
+			// Atualiza planilha
+			return await this.registerValue(updateRequest, chatId);
 		} catch (error) {
 			console.error('Erro ao processar mensagem:', error);
 			return `⚠️ Ops! Algo deu errado.
@@ -96,18 +300,469 @@ mensagem.
 		}
 	}
 
+	/**
+	 * Mostra ou altera a planilha usada pelo chat
+	 * - "planilha" → planilha atual
+	 * - "planilha <link ou ID>" → associa outra planilha (admin)
+	 * - "planilha padrao" → volta para a planilha padrão (admin)
+	 */
+	private async handleSpreadsheetCommand(
+		argument: string | undefined,
+		chatId: string,
+		sender?: string
+	): Promise<string> {
+		if (!argument) {
+			const spreadsheetId = this.spreadsheets.getSpreadsheetId(chatId);
+			const title = await this.getSheetUpdater(chatId)
+				.getSpreadsheetTitle()
+				.catch(() => '⚠️ sem acesso');
+
+			return `📄 Planilha deste chat
+
+${title}
+${SpreadsheetRegistry.getUrl(spreadsheetId)}
+
+⚙️ Origem: ${this.spreadsheets.getSource(chatId)}`;
+		}
+
+		if (!this.isAdmin(sender)) {
+			return `🔒 Apenas administradores
+podem trocar a planilha.
+
+💡 Configure ADMIN_NUMBERS
+   no .env.`;
+		}
+
+		if (/^(padrao|padrão|default)$/i.test(argument)) {
+			this.spreadsheets.resetSpreadsheet(chatId);
+			return `✅ Planilha restaurada
+
+${SpreadsheetRegistry.getUrl(this.spreadsheets.getSpreadsheetId(chatId))}
+
+⚙️ Origem: ${this.spreadsheets.getSource(chatId)}`;
+		}
+
+		const spreadsheetId = SpreadsheetRegistry.extractId(argument);
+		if (!spreadsheetId) {
+			return `⚠️ Link de planilha inválido.
+
+💡 Envie o link completo, ex:
+   planilha https://docs.google.com/spreadsheets/d/ID/edit`;
+		}
+
+		// Só associa se a conta de serviço conseguir abrir a planilha
+		// (pelo armazenamento direto: um SheetUpdater aqui criaria uma segunda fila de escritas)
+		let title: string;
+		try {
+			title = await createFinanceStorage(spreadsheetId).getTitle();
+		} catch (error) {
+			return `⚠️ Não consegui abrir a planilha.
+
+💡 Compartilhe a planilha (como
+   editor) com:
+   ${process.env.GOOGLE_CLIENT_EMAIL}`;
+		}
+
+		this.spreadsheets.setSpreadsheet(chatId, spreadsheetId);
+		console.log(`📄 Chat ${chatId} agora usa a planilha ${spreadsheetId}`);
+
+		return `✅ Planilha associada!
+
+📄 ${title}
+${SpreadsheetRegistry.getUrl(spreadsheetId)}
+
+Os próximos registros deste
+chat vão para essa planilha.`;
+	}
+
+	private isEntryCommand(parsed: ParsedMessage): boolean {
+		return ['entrada', 'saida', 'diario'].includes(parsed.type);
+	}
+
+	/**
+	 * Registra os valores de uma mensagem com várias linhas e responde com um recibo único
+	 *
+	 * Os valores são gravados juntos (uma escrita na planilha). Linhas que não são
+	 * registros, com data inválida ou com valor fora do padrão aparecem no recibo
+	 * sem impedir as demais.
+	 */
+	private async handleBatch(batch: BatchLine[], chatId?: string, sender?: string): Promise<string> {
+		const sheetUpdater = this.getSheetUpdater(chatId);
+		const lines: string[] = [];
+		const requests: { index: number; request: UpdateRequest }[] = [];
+		let unusual = 0;
+
+		for (const [index, { line, parsed }] of batch.entries()) {
+			if (!parsed || !this.isEntryCommand(parsed)) {
+				lines[index] = `⚠️ "${line}"\n   não é um registro de valor`;
+				continue;
+			}
+
+			const request = this.buildUpdateRequest(parsed, chatId, sender);
+
+			// A confirmação é uma por vez: valores fora do padrão ficam para uma mensagem própria
+			const reason = await this.valueGuard.check(request, sheetUpdater);
+			if (reason) {
+				lines[index] = `🤔 ${this.describeRequest(request)}\n   fora do padrão, envie sozinho\n   para confirmar`;
+				unusual++;
+				continue;
+			}
+
+			requests.push({ index, request });
+		}
+
+		const responses = await sheetUpdater.updateValues(requests.map(({ request }) => request));
+		const saved: UpdateRequest[] = [];
+		let queued = 0;
+
+		responses.forEach((response, position) => {
+			const { index, request } = requests[position];
+			const description = this.describeRequest(request);
+
+			if (response.queued) {
+				lines[index] = `⏳ ${description}\n   aguardando a planilha`;
+				queued++;
+			} else if (response.success) {
+				lines[index] = `✅ ${description}`;
+				saved.push(request);
+			} else {
+				const reason = response.message.split('\n')[0].replace(/^⚠️\s*/, '');
+				lines[index] = `⚠️ ${description}\n   ${reason}`;
+			}
+		});
+
+		const failed = batch.length - saved.length - queued - unusual;
+		const summary = [
+			saved.length > 0 ? `✅ ${saved.length} gravado(s)` : '',
+			queued > 0 ? `⏳ ${queued} na fila` : '',
+			unusual > 0 ? `🤔 ${unusual} a confirmar` : '',
+			failed > 0 ? `⚠️ ${failed} com erro` : '',
+		].filter(Boolean);
+
+		const receipt = `
+━━━━ 🧾 REGISTROS ━━━━
+
+${lines.map((line, index) => `${index + 1}. ${line}`).join('\n')}
+
+${summary.join(' · ')}${queued > 0 ? '\n\n💡 "pendentes" para ver a fila' : ''}
+    `.trim();
+
+		// Acrescenta consumo dos orçamentos afetados pelos valores gravados
+		const budgetStatus = await this.getBatchBudgetStatus(saved, chatId);
+
+		return budgetStatus ? `${receipt}\n\n${budgetStatus}` : receipt;
+	}
+
+	/**
+	 * Resumo de um registro para o recibo (ex: "diario R$ 45,00 (3 × 15) em 18/10 — mercado")
+	 */
+	private describeRequest(request: UpdateRequest): string {
+		const dateLabel = DateHelper.formatDate(
+			new Date(request.year, request.month - 1, request.day)
+		).substring(0, 5);
+
+		const expression = request.expression ? ` (${request.expression})` : '';
+
+		return `${request.shouldReplace ? 'sub ' : ''}${request.type} ${CurrencyHelper.format(request.value)}${expression} em ${dateLabel}${
+			request.description ? ` — ${request.description}` : ''
+		}`;
+	}
+
+	/**
+	 * Monta a requisição de atualização a partir de uma mensagem de registro
+	 */
+	private buildUpdateRequest(
+		parsed: ParsedMessage,
+		chatId?: string,
+		sender?: string
+	): UpdateRequest {
+		return {
+			type: parsed.type as 'entrada' | 'saida' | 'diario',
+			value: parsed.value!,
+			day: DateHelper.getDay(parsed.date),
+			month: DateHelper.getMonth(parsed.date),
+			year: DateHelper.getYear(parsed.date),
+			shouldReplace: parsed.shouldReplace || false,
+			chatId,
+			sender,
+			rawText: parsed.rawText,
+			description: parsed.description,
+			category: parsed.category,
+			expression: parsed.expression,
+		};
+	}
+
+	/**
+	 * Encaminha a mensagem para a IA
+	 * Registros identificados pela IA passam pelas mesmas validações e
+	 * confirmações dos comandos digitados
+	 */
+	private async handleWithAI(message: string, chatId?: string, sender?: string): Promise<string> {
+		const reply = await this.aiService.generateResponse(message, chatId || 'default');
+
+		if (reply.intents.length === 0) {
+			return reply.text;
+		}
+
+		const responses: string[] = [];
+		let confirmationAsked = false;
+
+		for (const intent of reply.intents) {
+			const parsed = MessageParser.fromIntent(intent);
+
+			if (!parsed) {
+				console.warn('⚠️  Registro inválido sugerido pela IA:', intent);
+				responses.push(`⚠️ Não consegui registrar
+"${message}".
+
+💡 Tente o comando direto, ex:
+   diario 45 mercado ontem`);
+				continue;
+			}
+
+			// Guarda a frase original no livro de lançamentos
+			const request = { ...this.buildUpdateRequest(parsed, chatId, sender), rawText: message };
+			const dateLabel = DateHelper.formatDate(parsed.date).substring(0, 5);
+			const understood = `🤖 Entendi: ${request.type} ${CurrencyHelper.format(request.value)} em ${dateLabel}${
+				request.description ? ` — ${request.description}` : ''
+			}`;
+
+			// Só cabe uma confirmação pendente por chat: outros valores fora do padrão
+			// não são gravados e aparecem na resposta para serem enviados de novo
+			if (confirmationAsked && (await this.valueGuard.check(request, this.getSheetUpdater(chatId)))) {
+				responses.push(`${understood}
+
+🤔 Valor fora do padrão, não registrado.
+
+💡 Confirme o anterior e envie
+   este de novo.`);
+				continue;
+			}
+
+			const confirmation = await this.requestConfirmationIfUnusual(request, chatId);
+			if (confirmation) {
+				responses.push(`${understood}\n\n${confirmation}`);
+				confirmationAsked = true;
+				continue;
+			}
+
+			responses.push(`${understood}\n\n${await this.registerValue(request, chatId)}`);
+		}
+
+		return responses.join('\n\n');
+	}
+
+	/**
+	 * Grava um valor na planilha e monta a confirmação (com orçamentos)
+	 */
+	private async registerValue(request: UpdateRequest, chatId?: string): Promise<string> {
+		const response = await this.getSheetUpdater(chatId).updateValue(request);
+
+		// Na fila, a planilha está fora: não dá para consultar os orçamentos
+		if (!response.success || response.queued) {
+			return response.message;
+		}
+
+		// Acrescenta consumo dos orçamentos (e alertas de 80%/100%)
+		const budgetStatus = await this.getBudgetStatus(request, chatId);
+
+		return budgetStatus ? `${response.message}\n\n${budgetStatus}` : response.message;
+	}
+
+	/**
+	 * Se o valor parecer um erro de digitação, guarda o registro como pendente
+	 * e retorna a pergunta de confirmação (null se o valor for normal)
+	 */
+	private async requestConfirmationIfUnusual(
+		request: UpdateRequest,
+		chatId?: string
+	): Promise<string | null> {
+		const reason = await this.valueGuard.check(request, this.getSheetUpdater(chatId));
+		if (!reason) {
+			return null;
+		}
+
+		const dateLabel = DateHelper.formatDate(
+			new Date(request.year, request.month - 1, request.day)
+		).substring(0, 5);
+		const action = request.shouldReplace ? 'substituir por' : '';
+		const summary = `${CurrencyHelper.format(request.value)} de ${request.type} em ${dateLabel}`;
+
+		this.pendingActions.set(
+			chatId || 'default',
+			summary,
+			() => this.registerValue(request, chatId),
+			request.sender
+		);
+
+		return `🤔 Valor fora do padrão
+
+⚠️ ${reason}
+
+Confirma ${action ? `${action} ` : ''}${summary}? (sim/não)`;
+	}
+
+	/**
+	 * Trata "sim"/"não" quando há uma ação aguardando confirmação
+	 * Retorna null se a mensagem não for uma resposta (segue o fluxo normal)
+	 */
+	private async handlePendingAnswer(
+		message: string,
+		chatId: string,
+		sender?: string
+	): Promise<string | null> {
+		const answer = PendingActions.parseAnswer(message);
+		if (!answer) {
+			return null;
+		}
+
+		const { action, expired } = this.pendingActions.take(chatId, sender);
+
+		if (expired) {
+			return `⏰ A confirmação expirou.
+
+💡 Envie o registro novamente.`;
+		}
+
+		if (!action) {
+			return null;
+		}
+
+		if (answer === 'no') {
+			return `❌ Cancelado
+
+${action.summary}
+não foi registrado.`;
+		}
+
+		return await action.confirm();
+	}
+
+	/**
+	 * Processa a foto de um cupom/nota fiscal e pede confirmação do registro
+	 * Retorna null se a leitura estiver desativada ou a imagem não for um cupom
+	 */
+	async handleReceiptImage(
+		image: Buffer,
+		mimeType: string,
+		caption: string,
+		chatId: string,
+		sender?: string
+	): Promise<string | null> {
+		if (!this.receiptService) {
+			return null;
+		}
+
+		try {
+			const receipt = await this.receiptService.analyze(image, mimeType);
+
+			if (!receipt.isReceipt) {
+				// Foto comum no grupo: ignora sem responder
+				return null;
+			}
+
+			if (!receipt.total) {
+				return `🧾 Não encontrei o valor
+total no cupom.
+
+💡 Registre digitando, ex:
+   diario 87,10 mercado`;
+			}
+
+			// Tipo pela legenda ("saida", "entrada") ou padrão configurado
+			const captionType = caption.toLowerCase().match(/\b(entrada|saida|saída|diario|diário)\b/);
+			const type = captionType
+				? (CategoryMatcher.normalize(captionType[1]) as UpdateRequest['type'])
+				: this.receiptEntryType;
+
+			const date = receipt.date || DateHelper.getBrasiliaTime();
+			const merchant = receipt.merchant || '';
+			const request: UpdateRequest = {
+				type,
+				value: receipt.total,
+				day: DateHelper.getDay(date),
+				month: DateHelper.getMonth(date),
+				year: DateHelper.getYear(date),
+				shouldReplace: false,
+				chatId,
+				sender,
+				rawText: `cupom: ${merchant}`.trim(),
+				description: merchant || undefined,
+				category: merchant ? CategoryMatcher.match(merchant) : undefined,
+			};
+
+			const dateLabel = DateHelper.formatDate(date).substring(0, 5);
+			const summary = `${type} ${CurrencyHelper.toCell(receipt.total).replace('R$ ', '')} em ${dateLabel}${
+				merchant ? ` — ${merchant}` : ''
+			}`;
+
+			this.pendingActions.set(chatId, summary, () => this.registerValue(request, chatId), sender);
+
+			return `🧾 Cupom lido!
+
+Registrar ${summary}?
+
+💬 Responda "sim" ou "não"`;
+		} catch (error) {
+			console.error('Erro ao ler cupom:', error);
+			return `⚠️ Não consegui ler o cupom.
+
+💡 Tente outra foto (bem
+   iluminada e sem cortes) ou
+   digite o valor.`;
+		}
+	}
+
+	/**
+	 * Consumo dos orçamentos afetados por um registro
+	 * Falhas aqui não impedem a confirmação do registro
+	 */
+	private async getBudgetStatus(request: UpdateRequest, chatId?: string): Promise<string> {
+		try {
+			return await this.budgetService.getStatusAfterUpdate(
+				chatId || 'default',
+				request,
+				this.getSheetUpdater(chatId)
+			);
+		} catch (error) {
+			console.error('Erro ao verificar orçamentos:', error);
+			return '';
+		}
+	}
+
+	/**
+	 * Consumo dos orçamentos afetados por vários registros (mesmo tratamento de falhas)
+	 */
+	private async getBatchBudgetStatus(requests: UpdateRequest[], chatId?: string): Promise<string> {
+		if (requests.length === 0) return '';
+
+		try {
+			return await this.budgetService.getStatusAfterUpdates(
+				chatId || 'default',
+				requests,
+				this.getSheetUpdater(chatId)
+			);
+		} catch (error) {
+			console.error('Erro ao verificar orçamentos:', error);
+			return '';
+		}
+	}
+
 	/**
 	 * Processa comandos de consulta (saldo, resumo)
 	 */
-	private async handleQueryCommand(type: 'hoje' | 'semana' | 'mes'): Promise<string> {
+	private async handleQueryCommand(
+		type: 'hoje' | 'semana' | 'mes',
+		sheetUpdater: SheetUpdater
+	): Promise<string> {
 		try {
 			switch (type) {
 				case 'hoje':
-					return await this.sheetUpdater.getDayReport(DateHelper.getBrasiliaTime());
+					return await sheetUpdater.getDayReport(DateHelper.getBrasiliaTime());
 				case 'semana':
-					return await this.sheetUpdater.getWeekReport();
+					return await sheetUpdater.getWeekReport();
 				case 'mes':
-					return await this.sheetUpdater.getCompleteMonthReport();
+					return await sheetUpdater.getCompleteMonthReport();
 				default:
 					return '⚠️ Comando não reconhecido.';
 			}
@@ -134,12 +789,30 @@ para ver os comandos.`;
    • entrada 200 hoje
    • saida 94,90 amanha
    • 517 (diário de hoje)
+   • diario 45 mercado
+   • saida 120 luz ontem
 
 🔸 SUBSTITUIR (sobrescreve)
    • sub 300 hoje
    • sub entrada 500
    • sub saida 100 16/12
 
+🧾 VÁRIOS DE UMA VEZ
+   • Um por linha ou separados
+     por ";" (ex: diario 45; saida 30)
+
+↩️ DESFAZER (erros de digitação)
+   • desfazer → último registro
+   • desfazer 3 → últimos 3
+
+🧹 ESQUECER
+   • esquecer → Apaga a memória da IA
+
+📄 PLANILHA
+   • planilha → Planilha deste chat
+   • configurar planilha → Gera a grade (admin)
+   • pendentes → Valores aguardando a planilha
+
 ━━━━━ 📊 CONSULTAS ━━━━━
 🔍 Resumos Rápidos:
    • saldo → Hoje
@@ -151,6 +824,26 @@ para ver os comandos.`;
    • performance → Entradas vs Saídas
    • comparar → Mês atual vs anterior
    • previsao → Projeção de fim de mês
+   • categorias → Gastos por categoria
+   • categorias 11/2025 → Mês específico
+
+━━━━━ 🎯 ORÇAMENTOS ━━━━━
+   • orcamento diario 1500
+   • orcamento mercado 800
+   • orcamentos → Consumo do mês
+   • orcamento diario 0 → Remove
+
+━━━━━ 🔁 RECORRENTES ━━━━━
+   • recorrente saida 1200 aluguel dia 5
+   • recorrente entrada 5000 salario dia 1
+   • recorrentes → Lista
+   • cancelar recorrente 2
+
+━━━━ 🔢 FORMATO VALORES ━━━━
+   ✓ 87,10 ou R$ 1.234,56
+   ✓ 1,2k ou 2 mil
+   ✓ 12+8,50+30 (soma)
+   ✓ 3x 49,90 (multiplica)
 
 ━━━━ 📅 FORMATO DATAS ━━━━
    ✓ hoje
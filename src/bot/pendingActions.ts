@@ -0,0 +1,72 @@
+import { CategoryMatcher } from '../utils/categoryMatcher';
+
+/**
+ * Ação aguardando confirmação ("sim"/"não") do usuário
+ */
+export interface PendingAction {
+	summary: string; // Descrição curta do que será feito
+	sender?: string; // Quem enviou o valor (só essa pessoa confirma)
+	confirm: () => Promise<string>; // Executa e retorna a resposta
+	expiresAt: number;
+}
+
+/**
+ * Guarda uma ação pendente por chat até ser confirmada, cancelada ou expirar
+ */
+export class PendingActions {
+	private actions: Map<string, PendingAction> = new Map();
+	private readonly timeoutMs: number;
+
+	constructor(timeoutMs: number = parseInt(process.env.CONFIRMATION_TIMEOUT_MS || '300000')) {
+		this.timeoutMs = timeoutMs; // Padrão: 5 minutos
+	}
+
+	/**
+	 * Interpreta a resposta do usuário
+	 */
+	static parseAnswer(message: string): 'yes' | 'no' | null {
+		const normalized = CategoryMatcher.normalize(message).replace(/[!.]+$/, '').trim();
+
+		if (/^(sim|s|yes|y|ok|confirmo|confirmar|confirma|isso|pode)$/.test(normalized)) return 'yes';
+		if (/^(nao|n|no|cancela|cancelar|cancelo)$/.test(normalized)) return 'no';
+		return null;
+	}
+
+	/**
+	 * Registra uma ação pendente (substitui a anterior do chat)
+	 */
+	set(chatId: string, summary: string, confirm: () => Promise<string>, sender?: string): void {
+		this.actions.set(chatId, {
+			summary,
+			sender,
+			confirm,
+			expiresAt: Date.now() + this.timeoutMs,
+		});
+	}
+
+	/**
+	 * Remove e retorna a ação pendente do chat
+	 * expired = true se havia uma ação, mas o prazo passou
+	 * Resposta de outra pessoa do grupo não mexe na ação (segue pendente)
+	 */
+	take(chatId: string, sender?: string): { action: PendingAction | null; expired: boolean } {
+		const action = this.actions.get(chatId);
+		if (!action) return { action: null, expired: false };
+		if (action.sender && action.sender !== sender) return { action: null, expired: false };
+
+		this.actions.delete(chatId);
+		if (Date.now() > action.expiresAt) {
+			return { action: null, expired: true };
+		}
+
+		return { action, expired: false };
+	}
+
+	/**
+	 * Indica se há ação pendente (não expirada) no chat
+	 */
+	has(chatId: string): boolean {
+		const action = this.actions.get(chatId);
+		return !!action && Date.now() <= action.expiresAt;
+	}
+}
@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { DateHelper } from '../utils/dateHelper';
+import { JsonStore } from '../utils/jsonStore';
+
+/**
+ * Horários (HH:MM, horário de Brasília) dos resumos automáticos de um chat
+ * Use "off" para desativar um resumo
+ */
+export interface ReportSchedule {
+	daily: string; // Resumo do dia, todo dia
+	weekly: string; // Resumo semanal, aos domingos
+	monthly: string; // Resumo do mês anterior, no dia 1
+}
+
+type ReportKind = keyof ReportSchedule;
+
+/**
+ * Envia resumos automáticos para os chats autorizados
+ *
+ * Verifica a cada minuto se algum resumo está no horário. Se o bot estava
+ * desconectado no horário, o resumo é enviado assim que possível no mesmo dia
+ * (enquanto estiver desconectado, as verificações são puladas em silêncio).
+ */
+export class ReportScheduler {
+	private timer: NodeJS.Timeout | null = null;
+	private running = false;
+	private sentStore = new JsonStore<Record<string, string>>('scheduler.json', {});
+	private overrides: Record<string, Partial<ReportSchedule>>;
+	private readonly defaults: ReportSchedule;
+
+	constructor(
+		private chats: string[],
+		private getSheetUpdater: (chatId: string) => SheetUpdater,
+		private send: (chatId: string, message: string) => Promise<void>,
+		private isConnected: () => boolean = () => true
+	) {
+		this.defaults = {
+			daily: process.env.DAILY_REPORT_TIME || '21:00',
+			weekly: process.env.WEEKLY_REPORT_TIME || '21:00',
+			monthly: process.env.MONTHLY_REPORT_TIME || '09:00',
+		};
+		this.overrides = this.loadOverrides();
+	}
+
+	/**
+	 * Carrega horários por chat do arquivo REPORT_SCHEDULE_FILE
+	 * Formato: { "120363XXX@g.us": { "daily": "20:00", "weekly": "off" } }
+	 */
+	private loadOverrides(): Record<string, Partial<ReportSchedule>> {
+		const file = process.env.REPORT_SCHEDULE_FILE;
+		if (!file) return {};
+
+		try {
+			return JSON.parse(readFileSync(resolve(file), 'utf-8'));
+		} catch (error) {
+			console.error(`⚠️  Erro ao carregar horários de ${file}, usando padrão:`, error);
+			return {};
+		}
+	}
+
+	/**
+	 * Horários efetivos de um chat (padrão + configuração do chat)
+	 */
+	getSchedule(chatId: string): ReportSchedule {
+		return { ...this.defaults, ...this.overrides[chatId] };
+	}
+
+	/**
+	 * Inicia a verificação periódica
+	 */
+	start(): void {
+		if (this.timer) return;
+
+		console.log('⏰ Resumos automáticos ativados:');
+		this.chats.forEach((chatId) => {
+			const schedule = this.getSchedule(chatId);
+			console.log(
+				`   ${chatId}: diário ${schedule.daily}, semanal ${schedule.weekly} (dom), mensal ${schedule.monthly} (dia 1)`
+			);
+		});
+
+		this.timer = setInterval(() => this.tick(), 60 * 1000);
+		this.tick();
+	}
+
+	/**
+	 * Interrompe a verificação periódica
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Envia os resumos que estão no horário e ainda não foram enviados hoje
+	 */
+	async tick(now: Date = DateHelper.getBrasiliaTime()): Promise<void> {
+		// Evita execuções sobrepostas se uma consulta à planilha demorar
+		if (this.running || !this.isConnected()) return;
+		this.running = true;
+
+		try {
+			const today = DateHelper.formatDate(now);
+
+			for (const chatId of this.chats) {
+				const schedule = this.getSchedule(chatId);
+
+				for (const kind of ['daily', 'weekly', 'monthly'] as ReportKind[]) {
+					if (!this.isDue(kind, schedule[kind], now)) continue;
+
+					const key = `${chatId}:${kind}`;
+					if (this.sentStore.read()[key] === today) continue;
+
+					try {
+						const report = await this.buildReport(kind, chatId, now);
+						await this.send(chatId, report);
+						this.sentStore.update((data) => {
+							data[key] = today;
+						});
+						console.log(`⏰ Resumo ${kind} enviado para ${chatId}`);
+					} catch (error) {
+						// Tenta novamente na próxima verificação
+						console.error(`❌ Erro ao enviar resumo ${kind} para ${chatId}:`, error);
+					}
+				}
+			}
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Verifica se o resumo deve sair hoje e se o horário já chegou
+	 */
+	private isDue(kind: ReportKind, time: string, now: Date): boolean {
+		const match = time.match(/^(\d{1,2}):(\d{2})$/);
+		if (!match) return false; // "off" ou horário inválido
+
+		if (kind === 'weekly' && now.getDay() !== 0) return false;
+		if (kind === 'monthly' && now.getDate() !== 1) return false;
+
+		const scheduledMinutes = parseInt(match[1]) * 60 + parseInt(match[2]);
+		const currentMinutes = now.getHours() * 60 + now.getMinutes();
+		return currentMinutes >= scheduledMinutes;
+	}
+
+	/**
+	 * Monta o texto do resumo
+	 */
+	private async buildReport(kind: ReportKind, chatId: string, now: Date): Promise<string> {
+		const sheetUpdater = this.getSheetUpdater(chatId);
+
+		switch (kind) {
+			case 'daily':
+				return `🔔 Resumo automático\n\n${await sheetUpdater.getDayReport(now)}`;
+			case 'weekly':
+				return `🔔 Resumo automático\n\n${await sheetUpdater.getWeekReport()}`;
+			case 'monthly': {
+				const previous = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+				const report = await sheetUpdater.getCompleteMonthReport(
+					previous.getMonth() + 1,
+					previous.getFullYear()
+				);
+				return `🔔 Fechamento do mês\n\n${report}`;
+			}
+		}
+	}
+}
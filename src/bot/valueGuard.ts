@@ -0,0 +1,104 @@
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { UpdateRequest } from '../types';
+import { CurrencyHelper } from '../utils/currencyHelper';
+
+type EntryType = UpdateRequest['type'];
+
+/**
+ * Detecta valores grandes ou fora do padrão (prováveis erros de digitação)
+ * para que o registro só aconteça após confirmação
+ *
+ * Regras (por tipo):
+ * - valor acima do limite fixo (CONFIRM_THRESHOLD_ENTRADA/SAIDA/DIARIO)
+ * - valor N vezes acima da média de um dia com lançamentos do tipo nos meses
+ *   anteriores (CONFIRM_AVERAGE_FACTOR)
+ */
+export class ValueGuard {
+	private readonly thresholds: Record<EntryType, number>;
+	private readonly averageFactor: number;
+	private readonly historyMonths = 3;
+	private readonly cacheTtl = 10 * 60 * 1000; // Médias recalculadas a cada 10 minutos
+	private averageCache: Map<string, { average: number; at: number }> = new Map();
+
+	constructor() {
+		this.thresholds = {
+			entrada: this.readNumber('CONFIRM_THRESHOLD_ENTRADA', 20000),
+			saida: this.readNumber('CONFIRM_THRESHOLD_SAIDA', 5000),
+			diario: this.readNumber('CONFIRM_THRESHOLD_DIARIO', 1000),
+		};
+		this.averageFactor = this.readNumber('CONFIRM_AVERAGE_FACTOR', 5);
+	}
+
+	/**
+	 * Lê um número do ambiente ("off" ou 0 desativa a regra)
+	 */
+	private readNumber(name: string, defaultValue: number): number {
+		const value = process.env[name];
+		if (value === undefined || value.trim() === '') return defaultValue;
+		if (value.trim().toLowerCase() === 'off') return 0;
+
+		const parsed = parseFloat(value);
+		return isNaN(parsed) ? defaultValue : parsed;
+	}
+
+	/**
+	 * Retorna o motivo para pedir confirmação, ou null se o valor parece normal
+	 */
+	async check(request: UpdateRequest, sheetUpdater: SheetUpdater): Promise<string | null> {
+		const threshold = this.thresholds[request.type];
+		if (threshold > 0 && request.value > threshold) {
+			return `Acima do limite de ${CurrencyHelper.format(threshold)}`;
+		}
+
+		if (this.averageFactor <= 0) return null;
+
+		try {
+			const average = await this.getDailyAverage(request, sheetUpdater);
+			if (average > 0 && request.value > average * this.averageFactor) {
+				return `${(request.value / average).toFixed(1).replace('.', ',')}x a média por dia
+   (${CurrencyHelper.format(average)})`;
+			}
+		} catch (error) {
+			// Sem histórico disponível, não bloqueia o registro
+			console.error('Erro ao calcular média para confirmação:', error);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Valor médio de um dia com lançamentos do tipo nos meses anteriores
+	 * (a comparação é com um lançamento, não com o total do mês)
+	 */
+	private async getDailyAverage(
+		request: UpdateRequest,
+		sheetUpdater: SheetUpdater
+	): Promise<number> {
+		// Cada chat pode usar uma planilha diferente
+		const key = `${request.chatId || 'default'}:${request.type}:${request.month}/${request.year}`;
+		const cached = this.averageCache.get(key);
+		if (cached && Date.now() - cached.at < this.cacheTtl) {
+			return cached.average;
+		}
+
+		const months: { month: number; year: number }[] = [];
+		for (let i = 1; i <= this.historyMonths; i++) {
+			const date = new Date(request.year, request.month - 1 - i, 1);
+			months.push({ month: date.getMonth() + 1, year: date.getFullYear() });
+		}
+
+		const monthDays = await Promise.all(
+			months.map(({ month, year }) => sheetUpdater.getMonthDays(month, year))
+		);
+
+		const values = monthDays
+			.flat()
+			.map((day) => day[request.type])
+			.filter((value) => value > 0);
+
+		const average =
+			values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+		this.averageCache.set(key, { average, at: Date.now() });
+		return average;
+	}
+}
@@ -5,27 +5,56 @@ import makeWASocket, {
   WASocket,
   WAMessage,
   proto,
-  fetchLatestBaileysVersion
+  fetchLatestBaileysVersion,
+  downloadMediaMessage
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import * as qrcode from 'qrcode-terminal';
 import pino from 'pino';
 import { resolve } from 'path';
+import { SpeechToText } from '../speech/speechToText';
+
+/**
+ * Callback de mensagem recebida
+ * transcribed = true quando o texto veio de uma nota de voz
+ */
+export type MessageCallback = (
+  from: string,
+  message: string,
+  sender: string,
+  transcribed?: boolean
+) => Promise<void>;
+
+/**
+ * Callback de imagem recebida (fotos de cupons)
+ */
+export type ImageCallback = (
+  from: string,
+  image: Buffer,
+  mimeType: string,
+  caption: string,
+  sender: string
+) => Promise<void>;
 
 /**
  * Gerenciador do bot WhatsApp usando Baileys
  */
 export class WhatsAppBot {
   private sock: WASocket | null = null;
+  private connected = false;
+  private transcriber: SpeechToText | null;
+  private readonly maxAudioSeconds = parseInt(process.env.STT_MAX_SECONDS || '120');
+  private openListeners: (() => void)[] = [];
 
-  constructor() {
-    // Construtor vazio - inicialização acontece no connect
+  constructor(transcriber: SpeechToText | null = null) {
+    // Inicialização da conexão acontece no connect
+    this.transcriber = transcriber;
   }
 
   /**
    * Conecta o bot ao WhatsApp
    */
-  async connect(onMessage: (from: string, message: string) => Promise<void>): Promise<void> {
+  async connect(onMessage: MessageCallback, onImage?: ImageCallback): Promise<void> {
     try {
       const authFolder = resolve(__dirname, '../../auth');
       console.log('📁 Pasta de autenticação:', authFolder);
@@ -85,11 +114,14 @@ export class WhatsAppBot {
 
         // Conectado
         if (connection === 'open') {
+          this.connected = true;
           console.log('✅ Bot conectado ao WhatsApp com sucesso!');
+          this.openListeners.forEach((listener) => listener());
         }
 
         // Desconectado
         if (connection === 'close') {
+          this.connected = false;
           const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
           const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
           
@@ -97,7 +129,7 @@ export class WhatsAppBot {
           if (statusCode === 515) {
             console.log('⚠️  Erro temporário de stream (515). Reconectando...');
             setTimeout(() => {
-              this.connect(onMessage);
+              this.connect(onMessage, onImage);
             }, 2000);
             return;
           }
@@ -110,7 +142,7 @@ export class WhatsAppBot {
           if (shouldReconnect) {
             console.log('⏳ Aguardando 5 segundos antes de reconectar...\n');
             setTimeout(() => {
-              this.connect(onMessage);
+              this.connect(onMessage, onImage);
             }, 5000);
           } else {
             console.log('🛑 Sessão encerrada. Delete a pasta auth/ e reinicie o bot.\n');
@@ -134,8 +166,9 @@ export class WhatsAppBot {
             continue;
           }
 
-          // Pega o remetente
+          // Pega o chat de origem e o autor (em grupos, o participante)
           const from = msg.key.remoteJid!;
+          const sender = msg.key.participant || from;
 
           // ⚠️ FILTRO RIGOROSO: Só processa mensagens de chats autorizados
           const allowedChats = process.env.ALLOWED_CHATS?.split(',').map(c => c.trim()).filter(c => c) || [];
@@ -167,10 +200,14 @@ export class WhatsAppBot {
             console.log(`📩 Mensagem de ${from}: ${messageText}`);
             
             try {
-              await onMessage(from, messageText);
+              await onMessage(from, messageText, sender);
             } catch (error) {
               console.error('❌ Erro ao processar mensagem:', error);
             }
+          } else if (msg.message.audioMessage) {
+            await this.handleAudioMessage(msg, from, sender, onMessage);
+          } else if (msg.message.imageMessage && onImage) {
+            await this.handleImageMessage(msg, from, sender, onImage);
           }
         }
       });
@@ -181,6 +218,99 @@ export class WhatsAppBot {
     }
   }
 
+  /**
+   * Baixa e transcreve uma nota de voz, processando o texto como se fosse digitado
+   */
+  private async handleAudioMessage(
+    msg: WAMessage,
+    from: string,
+    sender: string,
+    onMessage: MessageCallback
+  ): Promise<void> {
+    const audio = msg.message!.audioMessage!;
+
+    if (!this.transcriber) {
+      console.log(`🎙️ Áudio de ${from} ignorado (STT_PROVIDER não configurado)`);
+      return;
+    }
+
+    if (Number(audio.seconds || 0) > this.maxAudioSeconds) {
+      await this.sendMessage(from, `⚠️ Áudio muito longo!
+
+Envie notas de voz de até
+${this.maxAudioSeconds} segundos.`);
+      return;
+    }
+
+    try {
+      console.log(`🎙️ Áudio de ${from} (${audio.seconds || '?'}s), transcrevendo...`);
+
+      const buffer = (await downloadMediaMessage(msg, 'buffer', {}, {
+        logger: pino({ level: 'silent' }),
+        reuploadRequest: this.sock!.updateMediaMessage,
+      })) as Buffer;
+
+      const text = await this.transcriber.transcribe(buffer, audio.mimetype || 'audio/ogg');
+
+      if (!text) {
+        await this.sendMessage(from, `🎙️ Não entendi o áudio.
+
+💡 Tente falar mais perto do
+   microfone ou digite o comando.`);
+        return;
+      }
+
+      console.log(`📩 Transcrição de ${from}: ${text}`);
+      await onMessage(from, text, sender, true);
+    } catch (error) {
+      console.error('❌ Erro ao transcrever áudio:', error);
+      await this.sendMessage(from, `⚠️ Não consegui transcrever
+o áudio.
+
+💡 Tente novamente ou digite
+   o comando.`);
+    }
+  }
+
+  /**
+   * Baixa uma foto e repassa para o processamento de cupons
+   */
+  private async handleImageMessage(
+    msg: WAMessage,
+    from: string,
+    sender: string,
+    onImage: ImageCallback
+  ): Promise<void> {
+    const image = msg.message!.imageMessage!;
+
+    try {
+      console.log(`🖼️ Imagem de ${from}`);
+
+      const buffer = (await downloadMediaMessage(msg, 'buffer', {}, {
+        logger: pino({ level: 'silent' }),
+        reuploadRequest: this.sock!.updateMediaMessage,
+      })) as Buffer;
+
+      await onImage(from, buffer, image.mimetype || 'image/jpeg', image.caption || '', sender);
+    } catch (error) {
+      console.error('❌ Erro ao processar imagem:', error);
+    }
+  }
+
+  /**
+   * Registra uma ação para quando a conexão abrir (também a cada reconexão)
+   */
+  onOpen(listener: () => void): void {
+    this.openListeners.push(listener);
+  }
+
+  /**
+   * Indica se a conexão com o WhatsApp está aberta
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
   /**
    * Envia mensagem de texto
    */
@@ -0,0 +1,201 @@
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { Budget, UpdateRequest } from '../types';
+import { JsonStore } from '../utils/jsonStore';
+import { CurrencyHelper } from '../utils/currencyHelper';
+
+/**
+ * Orçamentos mensais por chat, com alertas ao cruzar 80% e 100%
+ * Persistidos em data/budgets.json
+ */
+export class BudgetService {
+	private store = new JsonStore<Record<string, Budget[]>>('budgets.json', {});
+	private readonly warningThreshold = 0.8;
+
+	/**
+	 * Nome amigável do alvo do orçamento
+	 */
+	private getTargetLabel(target: string): string {
+		const labels: Record<string, string> = {
+			diario: '🍽️ Diário',
+			saida: '💸 Saídas',
+		};
+		return labels[target] || `🏷️ ${target.charAt(0).toUpperCase() + target.slice(1)}`;
+	}
+
+	/**
+	 * Define (ou remove, com limite 0) o orçamento mensal de um alvo
+	 */
+	setBudget(chatId: string, target: string, limit: number): string {
+		this.store.update((data) => {
+			const budgets = (data[chatId] || []).filter((budget) => budget.target !== target);
+			if (limit > 0) {
+				budgets.push({ target, limit });
+			}
+			data[chatId] = budgets;
+		});
+
+		if (limit <= 0) {
+			return `🗑️ Orçamento removido
+
+${this.getTargetLabel(target)} não tem mais
+limite mensal.`;
+		}
+
+		return `🎯 Orçamento definido!
+
+${this.getTargetLabel(target)}
+   ${CurrencyHelper.format(limit)} por mês
+
+💡 Aviso ao atingir 80% e 100%.`;
+	}
+
+	/**
+	 * Lista os orçamentos do chat com o consumo do mês atual
+	 */
+	async getBudgetsReport(
+		chatId: string,
+		sheetUpdater: SheetUpdater,
+		month: number,
+		year: number
+	): Promise<string> {
+		const budgets = this.store.read()[chatId] || [];
+
+		if (budgets.length === 0) {
+			return `ℹ️ Nenhum orçamento definido
+
+💡 Exemplos:
+   • orcamento diario 1500
+   • orcamento mercado 800`;
+		}
+
+		const lines: string[] = [];
+		for (const budget of budgets) {
+			const consumed = await this.getConsumed(budget.target, sheetUpdater, month, year);
+			lines.push(this.formatStatus(budget, consumed));
+		}
+
+		return `
+━━━━ 🎯 ORÇAMENTOS ━━━━
+
+${lines.join('\n\n')}
+    `.trim();
+	}
+
+	/**
+	 * Texto a ser adicionado à confirmação de um registro
+	 * Retorna string vazia se nenhum orçamento se aplica
+	 */
+	async getStatusAfterUpdate(
+		chatId: string,
+		request: UpdateRequest,
+		sheetUpdater: SheetUpdater
+	): Promise<string> {
+		return this.getStatusAfterUpdates(chatId, [request], sheetUpdater);
+	}
+
+	/**
+	 * Mesmo texto para vários registros gravados juntos (mensagem com várias linhas)
+	 * Cada orçamento aparece uma vez por mês afetado, com os valores somados
+	 */
+	async getStatusAfterUpdates(
+		chatId: string,
+		requests: UpdateRequest[],
+		sheetUpdater: SheetUpdater
+	): Promise<string> {
+		const expenses = requests.filter((request) => request.type !== 'entrada');
+		if (expenses.length === 0) return '';
+
+		const budgets = this.store.read()[chatId] || [];
+		const sections: string[] = [];
+
+		for (const budget of budgets) {
+			const affected = expenses.filter(
+				(request) =>
+					budget.target === request.type || (request.category && budget.target === request.category)
+			);
+			const months = Array.from(new Set(affected.map(({ month, year }) => `${month}/${year}`)));
+
+			for (const key of months) {
+				const [month, year] = key.split('/').map(Number);
+				const inMonth = affected.filter((request) => request.month === month && request.year === year);
+				const consumed = await this.getConsumed(budget.target, sheetUpdater, month, year);
+
+				// Em substituições não dá para saber o consumo anterior, então não há "cruzamento"
+				const before = inMonth.some((request) => request.shouldReplace)
+					? consumed
+					: consumed - inMonth.reduce((sum, request) => sum + request.value, 0);
+
+				let section = this.formatStatus(budget, consumed);
+				const warning = this.getThresholdWarning(budget, before, consumed);
+				if (warning) {
+					section += `\n\n${warning}`;
+				}
+				sections.push(section);
+			}
+		}
+
+		if (sections.length === 0) return '';
+
+		return `━━━━━━━━━━━━━━━━━━\n\n${sections.join('\n\n')}`;
+	}
+
+	/**
+	 * Quanto do alvo já foi gasto no mês
+	 */
+	private async getConsumed(
+		target: string,
+		sheetUpdater: SheetUpdater,
+		month: number,
+		year: number
+	): Promise<number> {
+		if (target === 'diario' || target === 'saida') {
+			const totals = await sheetUpdater.getMonthTotals(month, year);
+			if (!totals) return 0;
+			return target === 'diario' ? totals.totalDiario : totals.totalSaidas;
+		}
+
+		const categories = await sheetUpdater.getCategoryTotals(month, year);
+		return categories.find((category) => category.category === target)?.total || 0;
+	}
+
+	/**
+	 * Formata consumo do orçamento com barra de progresso
+	 */
+	private formatStatus(budget: Budget, consumed: number): string {
+		const ratio = budget.limit > 0 ? consumed / budget.limit : 0;
+		const filled = Math.min(10, Math.round(ratio * 10));
+		const bar = '▓'.repeat(filled) + '░'.repeat(10 - filled);
+		const remaining = budget.limit - consumed;
+
+		return `🎯 Orçamento ${this.getTargetLabel(budget.target)}
+   ${CurrencyHelper.format(consumed)} de ${CurrencyHelper.format(budget.limit)}
+   ${bar} ${Math.round(ratio * 100)}%
+   ${
+		remaining >= 0
+			? `Restam ${CurrencyHelper.format(remaining)}`
+			: `Excedido em ${CurrencyHelper.format(-remaining)}`
+	}`;
+	}
+
+	/**
+	 * Aviso explícito quando o registro cruza 80% ou 100% do limite
+	 */
+	private getThresholdWarning(budget: Budget, before: number, after: number): string | null {
+		const label = this.getTargetLabel(budget.target);
+
+		if (before < budget.limit && after >= budget.limit) {
+			return `🚨 ORÇAMENTO ESTOURADO!
+${label} passou de 100%
+do limite do mês.`;
+		}
+
+		const warningValue = budget.limit * this.warningThreshold;
+		if (before < warningValue && after >= warningValue) {
+			return `⚠️ ATENÇÃO!
+${label} atingiu 80%
+do orçamento do mês.`;
+		}
+
+		return null;
+	}
+}
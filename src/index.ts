@@ -1,5 +1,9 @@
 import { WhatsAppBot } from './bot/whatsapp';
 import { MessageHandler } from './bot/messageHandler';
+import { ReportScheduler } from './bot/scheduler';
+import { createSpeechToText } from './speech/speechToText';
+import { SheetLayout } from './sheets/sheetLayout';
+import { getStorageProvider } from './storage/financeStorage';
 import * as dotenv from 'dotenv';
 
 // Carrega variáveis de ambiente
@@ -58,12 +62,11 @@ const originalStderrWrite = process.stderr.write.bind(process.stderr);
 async function main() {
 	console.log('🚀 Iniciando Finance WhatsApp Bot...\n');
 
-	// Valida variáveis de ambiente
+	// Valida variáveis de ambiente (com SQLite, as credenciais do Google não são necessárias)
 	const requiredEnvVars = [
-		'GOOGLE_PROJECT_ID',
-		'GOOGLE_CLIENT_EMAIL',
-		'GOOGLE_PRIVATE_KEY',
-		'SHEET_ID',
+		...(getStorageProvider() === 'sqlite'
+			? []
+			: ['GOOGLE_PROJECT_ID', 'GOOGLE_CLIENT_EMAIL', 'GOOGLE_PRIVATE_KEY', 'SHEET_ID']),
 		'BOT_PHONE_NUMBER',
 		'ALLOWED_CHATS',
 	];
@@ -96,26 +99,113 @@ async function main() {
 		process.exit(1);
 	}
 
+	// Valida o layout da planilha (SHEET_LAYOUT_FILE) antes de qualquer escrita
+	try {
+		SheetLayout.get();
+	} catch (error) {
+		console.error(`❌ ${error instanceof Error ? error.message : error}`);
+		process.exit(1);
+	}
+
 	try {
 		// Cria instâncias
-		const bot = new WhatsAppBot();
+		const transcriber = createSpeechToText();
+		if (transcriber) {
+			console.log(`🎙️ Transcrição de áudios ativada (${transcriber.name})`);
+		}
+
+		const bot = new WhatsAppBot(transcriber);
 		const messageHandler = new MessageHandler();
 
 		// Define handler de mensagens
-		const onMessage = async (from: string, message: string) => {
+		const onMessage = async (
+			from: string,
+			message: string,
+			sender: string,
+			transcribed?: boolean
+		) => {
 			console.log(`\n📨 Processando mensagem de ${from}`);
 
-			// Processa mensagem (passa chatId para contexto da IA)
-			const response = await messageHandler.handleMessage(message, from);
+			// Processa mensagem (passa chatId para contexto da IA e autor para o livro de lançamentos)
+			const response = await messageHandler.handleMessage(message, from, sender);
 
-			// Envia resposta
-			await bot.sendMessage(from, response);
+			// Envia resposta (com a transcrição, para o usuário conferir o que foi entendido)
+			await bot.sendMessage(
+				from,
+				transcribed ? `🎙️ Entendi: "${message}"\n\n${response}` : response
+			);
 
 			console.log(`✅ Resposta enviada: ${response.substring(0, 50)}...`);
 		};
 
+		// Fotos de cupons: propõe o registro e aguarda "sim"/"não"
+		const onImage = async (
+			from: string,
+			image: Buffer,
+			mimeType: string,
+			caption: string,
+			sender: string
+		) => {
+			const response = await messageHandler.handleReceiptImage(
+				image,
+				mimeType,
+				caption,
+				from,
+				sender
+			);
+			if (response) {
+				await bot.sendMessage(from, response);
+			}
+		};
+
+		// Lançamentos recorrentes: verifica ao iniciar (recupera meses com o bot
+		// desligado) e depois a cada 10 minutos. Os resumos aguardam a conexão
+		// abrir (ex: antes de escanear o QR Code) e são enviados em ordem
+		const undelivered: { chatId: string; summary: string }[] = [];
+		let delivering: Promise<void> | null = null;
+
+		const deliverRecurring = (): Promise<void> => {
+			if (!delivering) {
+				delivering = (async () => {
+					while (undelivered.length > 0 && bot.isConnected()) {
+						const { chatId, summary } = undelivered[0];
+						await bot.sendMessage(chatId, summary);
+						undelivered.shift();
+					}
+				})().finally(() => {
+					delivering = null;
+				});
+			}
+			return delivering;
+		};
+
+		const applyRecurring = async () => {
+			const results = await messageHandler.applyRecurringRules();
+			for (const [chatId, summary] of results) {
+				console.log(`🔁 Recorrentes lançados para ${chatId}`);
+				undelivered.push({ chatId, summary });
+			}
+			await deliverRecurring();
+		};
+
+		const logRecurringError = (error: unknown) =>
+			console.error('Erro nos lançamentos recorrentes:', error);
+
+		bot.onOpen(() => deliverRecurring().catch(logRecurringError));
+		applyRecurring().catch(logRecurringError);
+		setInterval(() => applyRecurring().catch(logRecurringError), 10 * 60 * 1000);
+
 		// Conecta o bot
-		await bot.connect(onMessage);
+		await bot.connect(onMessage, onImage);
+
+		// Resumos automáticos (diário, semanal e mensal) para os chats autorizados
+		const scheduler = new ReportScheduler(
+			allowedChats,
+			(chatId) => messageHandler.getSheetUpdater(chatId),
+			(chatId, message) => bot.sendMessage(chatId, message),
+			() => bot.isConnected()
+		);
+		scheduler.start();
 
 		console.log('\n✨ Bot iniciado com sucesso!');
 		console.log('📱 Aguardando QR Code...\n');
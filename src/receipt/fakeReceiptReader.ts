@@ -0,0 +1,17 @@
+import { ReceiptData } from '../types';
+import { ReceiptReader } from './receiptReader';
+
+/**
+ * Leitor de cupom falso e determinístico, para testes e desenvolvimento offline
+ */
+export class FakeReceiptReader implements ReceiptReader {
+	readonly name = 'fake';
+	readonly received: { image: Buffer; mimeType: string }[] = [];
+
+	constructor(private result: ReceiptData) {}
+
+	async read(image: Buffer, mimeType: string): Promise<ReceiptData> {
+		this.received.push({ image, mimeType });
+		return { ...this.result };
+	}
+}
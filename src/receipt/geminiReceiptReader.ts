@@ -0,0 +1,61 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ReceiptData } from '../types';
+import { ReceiptReader } from './receiptReader';
+
+/**
+ * Leitura de cupons com o Google Gemini (modelo multimodal)
+ */
+export class GeminiReceiptReader implements ReceiptReader {
+	readonly name = 'gemini';
+	private gemini: GoogleGenerativeAI;
+	private readonly model: string;
+
+	constructor() {
+		if (!process.env.GEMINI_API_KEY) {
+			throw new Error('RECEIPT_PROVIDER=gemini requer GEMINI_API_KEY');
+		}
+
+		this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+		this.model = process.env.RECEIPT_MODEL || process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+	}
+
+	async read(image: Buffer, mimeType: string): Promise<ReceiptData> {
+		const model = this.gemini.getGenerativeModel({
+			model: this.model,
+			generationConfig: { responseMimeType: 'application/json' },
+		});
+
+		const result = await model.generateContent([
+			{ inlineData: { data: image.toString('base64'), mimeType } },
+			{
+				text: `Analise a imagem. Se for um cupom fiscal, nota fiscal (NFC-e) ou recibo de compra, extraia os dados.
+Responda APENAS com JSON no formato:
+{
+  "isReceipt": true,
+  "total": 87.10,
+  "date": "dd/mm/aaaa",
+  "merchant": "nome do estabelecimento",
+  "qrCodeText": "URL do QR code, se legível",
+  "accessKey": "chave de acesso de 44 dígitos, se impressa"
+}
+Use null para campos ausentes. "total" é o VALOR TOTAL PAGO, em número.
+Se a imagem não for um comprovante de compra, responda {"isReceipt": false}.`,
+			},
+		]);
+
+		const data = JSON.parse(result.response.text() || '{}');
+		const dateMatch = String(data.date || '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+		const year = dateMatch ? parseInt(dateMatch[3]) : 0;
+
+		return {
+			isReceipt: data.isReceipt === true,
+			total: typeof data.total === 'number' && data.total > 0 ? data.total : undefined,
+			date: dateMatch
+				? new Date(year < 100 ? year + 2000 : year, parseInt(dateMatch[2]) - 1, parseInt(dateMatch[1]))
+				: undefined,
+			merchant: data.merchant || undefined,
+			qrCodeText: data.qrCodeText || undefined,
+			rawText: data.accessKey || undefined,
+		};
+	}
+}
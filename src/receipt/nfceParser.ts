@@ -0,0 +1,135 @@
+/**
+ * Dados extraídos do QR code / chave de acesso de uma NFC-e
+ */
+export interface NfceData {
+	accessKey: string; // Chave de acesso (44 dígitos)
+	uf: string; // Código IBGE da UF emitente
+	cnpj: string; // CNPJ do emitente
+	model: string; // 65 = NFC-e, 55 = NF-e
+	month: number;
+	year: number;
+	day?: number; // Presente apenas em QR codes de emissão offline/v1
+	total?: number; // Idem
+}
+
+/**
+ * Interpreta o QR code da NFC-e (URL da SEFAZ) ou a chave de acesso impressa
+ *
+ * Formatos suportados do parâmetro do QR code:
+ * - v1: ?chNFe=<chave>&nVersao=100&...&dhEmi=<data em hex>&vNF=87.10
+ * - v2/v3 online: ?p=<chave>|2|<tpAmb>|<cIdToken>|<hash>
+ * - v2 offline: ?p=<chave>|2|<tpAmb>|<dia>|<vNF>|<digVal>|<cIdToken>|<hash>
+ * - v3 offline: ?p=<chave>|3|<tpAmb>|<dia>|<vNF>|...
+ */
+export class NfceParser {
+	/**
+	 * Procura um QR code ou chave de acesso válida no texto
+	 */
+	static parse(text: string): NfceData | null {
+		if (!text) return null;
+
+		return this.parseQrCodeUrl(text) || this.parseAccessKeyFromText(text);
+	}
+
+	/**
+	 * Interpreta a URL do QR code
+	 */
+	private static parseQrCodeUrl(text: string): NfceData | null {
+		// Versão 1: parâmetros nomeados
+		const v1Key = text.match(/chNFe=(\d{44})/i);
+		if (v1Key) {
+			const data = this.parseAccessKey(v1Key[1]);
+			if (!data) return null;
+
+			const total = text.match(/vNF=([\d.]+)/i);
+			if (total) data.total = parseFloat(total[1]);
+
+			// dhEmi vem como a data ISO codificada em hexadecimal
+			const issued = text.match(/dhEmi=([0-9a-f]+)/i);
+			if (issued) {
+				const decoded = Buffer.from(issued[1], 'hex').toString('utf-8');
+				const dateMatch = decoded.match(/^(\d{4})-(\d{2})-(\d{2})/);
+				if (dateMatch) data.day = parseInt(dateMatch[3]);
+			}
+
+			return data;
+		}
+
+		// Versões 2 e 3: campos separados por "|"
+		const pipeParam = text.match(/[?&]p=([0-9|A-Fa-f.,]+)/);
+		if (!pipeParam) return null;
+
+		const fields = decodeURIComponent(pipeParam[1]).split('|');
+		const data = this.parseAccessKey(fields[0]);
+		if (!data) return null;
+
+		// Offline: chave|versão|ambiente|dia|valor|...
+		const isOffline = fields.length >= 7 && /^\d{1,2}$/.test(fields[3] || '');
+		if (isOffline) {
+			data.day = parseInt(fields[3]);
+			data.total = parseFloat(fields[4].replace(',', '.'));
+		}
+
+		return data;
+	}
+
+	/**
+	 * Procura a chave de acesso impressa no cupom (44 dígitos, às vezes em grupos de 4)
+	 */
+	private static parseAccessKeyFromText(text: string): NfceData | null {
+		const candidates = text.match(/(?:\d[\s.]?){44}/g) || [];
+
+		for (const candidate of candidates) {
+			const data = this.parseAccessKey(candidate.replace(/\D/g, ''));
+			if (data) return data;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Decompõe a chave de acesso:
+	 * cUF(2) AAMM(4) CNPJ(14) modelo(2) série(3) número(9) tpEmis(1) código(8) DV(1)
+	 */
+	static parseAccessKey(key: string): NfceData | null {
+		if (!/^\d{44}$/.test(key) || !this.isValidCheckDigit(key)) {
+			return null;
+		}
+
+		const month = parseInt(key.substring(4, 6));
+		if (month < 1 || month > 12) return null;
+
+		return {
+			accessKey: key,
+			uf: key.substring(0, 2),
+			year: 2000 + parseInt(key.substring(2, 4)),
+			month,
+			cnpj: key.substring(6, 20),
+			model: key.substring(20, 22),
+		};
+	}
+
+	/**
+	 * Valida o dígito verificador (módulo 11, pesos 2 a 9)
+	 */
+	private static isValidCheckDigit(key: string): boolean {
+		let sum = 0;
+		let weight = 2;
+
+		for (let i = 42; i >= 0; i--) {
+			sum += parseInt(key[i]) * weight;
+			weight = weight === 9 ? 2 : weight + 1;
+		}
+
+		const remainder = sum % 11;
+		const digit = remainder < 2 ? 0 : 11 - remainder;
+		return digit === parseInt(key[43]);
+	}
+
+	/**
+	 * Formata CNPJ (12345678000190 → 12.345.678/0001-90)
+	 */
+	static formatCnpj(cnpj: string): string {
+		return cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+	}
+}
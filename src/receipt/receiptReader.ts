@@ -0,0 +1,41 @@
+import * as dotenv from 'dotenv';
+import { ReceiptData } from '../types';
+import { GeminiReceiptReader } from './geminiReceiptReader';
+import { FakeReceiptReader } from './fakeReceiptReader';
+
+dotenv.config();
+
+/**
+ * Interface para leitores de cupom (OCR / modelos de visão)
+ */
+export interface ReceiptReader {
+	readonly name: string;
+
+	/**
+	 * Extrai total, data, estabelecimento e QR code da foto
+	 */
+	read(image: Buffer, mimeType: string): Promise<ReceiptData>;
+}
+
+/**
+ * Cria o leitor configurado em RECEIPT_PROVIDER
+ * - gemini: Google Gemini com visão (usa GEMINI_API_KEY)
+ * - fake: resultado fixo, para testes
+ * Retorna null se nenhum estiver configurado (fotos são ignoradas)
+ */
+export function createReceiptReader(): ReceiptReader | null {
+	const provider = (process.env.RECEIPT_PROVIDER || '').toLowerCase().trim();
+
+	switch (provider) {
+		case '':
+		case 'none':
+			return null;
+		case 'gemini':
+			return new GeminiReceiptReader();
+		case 'fake':
+			return new FakeReceiptReader({ isReceipt: true, rawText: process.env.RECEIPT_FAKE_TEXT || '' });
+		default:
+			console.log(`⚠️  RECEIPT_PROVIDER desconhecido: "${provider}". Fotos serão ignoradas.`);
+			return null;
+	}
+}
@@ -0,0 +1,47 @@
+import { ReceiptData } from '../types';
+import { ReceiptReader } from './receiptReader';
+import { NfceParser } from './nfceParser';
+
+/**
+ * Combina a leitura da foto com os dados da NFC-e (QR code / chave de acesso)
+ * Quando o QR code traz valor e dia, eles têm prioridade sobre o OCR
+ */
+export class ReceiptService {
+	constructor(private reader: ReceiptReader) {}
+
+	get providerName(): string {
+		return this.reader.name;
+	}
+
+	async analyze(image: Buffer, mimeType: string): Promise<ReceiptData> {
+		const receipt = await this.reader.read(image, mimeType);
+		const nfce = NfceParser.parse(`${receipt.qrCodeText || ''}\n${receipt.rawText || ''}`);
+
+		if (!nfce) {
+			return receipt;
+		}
+
+		const result: ReceiptData = { ...receipt, isReceipt: true };
+
+		if (nfce.total !== undefined && nfce.total > 0) {
+			result.total = nfce.total;
+		}
+
+		// A chave sempre traz mês/ano; o dia vem do QR offline ou do OCR
+		const ocrDay = receipt.date?.getDate();
+		const ocrMatchesKey =
+			receipt.date &&
+			receipt.date.getMonth() + 1 === nfce.month &&
+			receipt.date.getFullYear() === nfce.year;
+		const day = nfce.day ?? (ocrMatchesKey ? ocrDay : undefined);
+		if (day) {
+			result.date = new Date(nfce.year, nfce.month - 1, day);
+		}
+
+		if (!result.merchant) {
+			result.merchant = `CNPJ ${NfceParser.formatCnpj(nfce.cnpj)}`;
+		}
+
+		return result;
+	}
+}
@@ -0,0 +1,236 @@
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { RecurringRule } from '../types';
+import { JsonStore } from '../utils/jsonStore';
+import { DateHelper } from '../utils/dateHelper';
+import { CurrencyHelper } from '../utils/currencyHelper';
+
+/**
+ * Lançamentos recorrentes por chat (aluguel, internet, salário...)
+ * Persistidos em data/recurring.json e aplicados no dia do vencimento,
+ * inclusive meses que passaram com o bot desligado
+ */
+export class RecurringService {
+	private store = new JsonStore<Record<string, RecurringRule[]>>('recurring.json', {});
+	private applying = new Set<string>();
+
+	private readonly typeEmoji = {
+		entrada: '💰',
+		saida: '💸',
+		diario: '🍽️',
+	};
+
+	/**
+	 * Chave do mês (aaaa-mm) para controle do último mês aplicado
+	 */
+	private getMonthKey(month: number, year: number): string {
+		return `${year}-${month.toString().padStart(2, '0')}`;
+	}
+
+	/**
+	 * Dia efetivo do lançamento no mês (dia 31 vira 30 em abril, 28/29 em fevereiro)
+	 */
+	private getEffectiveDay(dueDay: number, month: number, year: number): number {
+		const daysInMonth = new Date(year, month, 0).getDate();
+		return Math.min(dueDay, daysInMonth);
+	}
+
+	/**
+	 * Chats que possuem regras cadastradas
+	 */
+	getChatIds(): string[] {
+		return Object.keys(this.store.read()).filter((chatId) => this.store.read()[chatId].length > 0);
+	}
+
+	/**
+	 * Cadastra uma nova regra
+	 * Se o dia do vencimento já passou neste mês, o primeiro lançamento é no mês seguinte
+	 */
+	addRule(chatId: string, rule: Omit<RecurringRule, 'createdAt' | 'lastApplied'>): string {
+		const today = DateHelper.getBrasiliaTime();
+		const month = today.getMonth() + 1;
+		const year = today.getFullYear();
+		const alreadyPassed = today.getDate() > this.getEffectiveDay(rule.dueDay, month, year);
+
+		this.store.update((data) => {
+			data[chatId] = data[chatId] || [];
+			data[chatId].push({
+				...rule,
+				createdAt: DateHelper.formatDate(today),
+				lastApplied: alreadyPassed ? this.getMonthKey(month, year) : null,
+			});
+		});
+
+		const firstDate = alreadyPassed
+			? new Date(year, month, this.getEffectiveDay(rule.dueDay, month + 1, year))
+			: new Date(year, month - 1, this.getEffectiveDay(rule.dueDay, month, year));
+
+		return `🔁 Recorrente cadastrado!
+
+${this.formatRule(rule)}
+
+📅 Primeiro lançamento: ${DateHelper.formatDate(firstDate)}
+
+💡 "recorrentes" para listar`;
+	}
+
+	/**
+	 * Lista as regras do chat (numeradas para "cancelar recorrente N")
+	 */
+	listRules(chatId: string): string {
+		const rules = this.store.read()[chatId] || [];
+
+		if (rules.length === 0) {
+			return `ℹ️ Nenhum recorrente cadastrado
+
+💡 Exemplos:
+   • recorrente saida 1200 aluguel dia 5
+   • recorrente entrada 5000 salario dia 1`;
+		}
+
+		const lines = rules.map((rule, index) => `${index + 1}. ${this.formatRule(rule)}`);
+
+		return `
+━━━━ 🔁 RECORRENTES ━━━━
+
+${lines.join('\n\n')}
+
+💡 "cancelar recorrente N" para remover
+    `.trim();
+	}
+
+	/**
+	 * Remove a regra de número N (como exibido em "recorrentes")
+	 */
+	removeRule(chatId: string, position: number): string {
+		const rules = this.store.read()[chatId] || [];
+
+		if (position < 1 || position > rules.length) {
+			return `⚠️ Recorrente ${position} não existe.
+
+💡 Digite "recorrentes" para
+   ver a lista.`;
+		}
+
+		const [removed] = rules.splice(position - 1, 1);
+		this.store.update((data) => {
+			data[chatId] = rules;
+		});
+
+		return `🗑️ Recorrente cancelado
+
+${this.formatRule(removed)}`;
+	}
+
+	/**
+	 * Aplica na planilha os lançamentos vencidos do chat
+	 * Retorna o resumo do que foi lançado (ou null se nada venceu)
+	 */
+	async applyDue(chatId: string, sheetUpdater: SheetUpdater): Promise<string | null> {
+		// Evita aplicar duas vezes se a verificação anterior ainda estiver rodando
+		if (this.applying.has(chatId)) return null;
+		this.applying.add(chatId);
+
+		try {
+			const rules = this.store.read()[chatId] || [];
+			const today = DateHelper.getBrasiliaTime();
+			const applied: string[] = [];
+
+			// Cópia: a lista pode mudar durante as escritas ("cancelar recorrente")
+			for (const rule of [...rules]) {
+				for (const { month, year } of this.getPendingMonths(rule, today)) {
+					// Cancelada enquanto os meses anteriores eram lançados
+					if (!(this.store.read()[chatId] || []).includes(rule)) break;
+
+					const day = this.getEffectiveDay(rule.dueDay, month, year);
+					// Sem fila: o mês só conta como lançado depois de chegar à planilha
+					const response = await sheetUpdater.updateValue(
+						{
+							type: rule.type,
+							value: rule.value,
+							day,
+							month,
+							year,
+							chatId,
+							sender: 'recorrente',
+							rawText: `recorrente: ${rule.description}`.trim(),
+							description: rule.description,
+							category: rule.category,
+						},
+						{ queue: false }
+					);
+
+					if (!response.success) {
+						// Tenta de novo na próxima verificação, sem pular meses
+						console.error(`❌ Erro ao aplicar recorrente (${chatId}):`, response.message);
+						break;
+					}
+
+					this.store.update(() => {
+						rule.lastApplied = this.getMonthKey(month, year);
+					});
+					applied.push(
+						`${this.formatRule(rule)}\n   📅 ${DateHelper.formatDate(new Date(year, month - 1, day))}`
+					);
+				}
+			}
+
+			if (applied.length === 0) return null;
+
+			return `
+🔁 Recorrentes lançados!
+
+${applied.join('\n\n')}
+    `.trim();
+		} finally {
+			this.applying.delete(chatId);
+		}
+	}
+
+	/**
+	 * Meses com lançamento vencido e ainda não aplicado, do mais antigo ao atual
+	 */
+	private getPendingMonths(rule: RecurringRule, today: Date): { month: number; year: number }[] {
+		const pending: { month: number; year: number }[] = [];
+		const currentMonth = today.getMonth() + 1;
+		const currentYear = today.getFullYear();
+
+		// Começa no mês seguinte ao último aplicado, ou no mês de cadastro
+		let month: number;
+		let year: number;
+		if (rule.lastApplied) {
+			const [lastYear, lastMonth] = rule.lastApplied.split('-').map(Number);
+			month = lastMonth === 12 ? 1 : lastMonth + 1;
+			year = lastMonth === 12 ? lastYear + 1 : lastYear;
+		} else {
+			const [, createdMonth, createdYear] = rule.createdAt.split('/').map(Number);
+			month = createdMonth;
+			year = createdYear;
+		}
+
+		while (year < currentYear || (year === currentYear && month <= currentMonth)) {
+			const isCurrent = year === currentYear && month === currentMonth;
+			if (!isCurrent || today.getDate() >= this.getEffectiveDay(rule.dueDay, month, year)) {
+				pending.push({ month, year });
+			}
+
+			month++;
+			if (month > 12) {
+				month = 1;
+				year++;
+			}
+		}
+
+		return pending;
+	}
+
+	/**
+	 * Descrição de uma regra (ex: "💸 Saida R$ 1.200,00 - aluguel (dia 5)")
+	 */
+	private formatRule(rule: Omit<RecurringRule, 'createdAt' | 'lastApplied'>): string {
+		const typeName = rule.type.charAt(0).toUpperCase() + rule.type.slice(1);
+		const description = rule.description ? ` - ${rule.description}` : '';
+
+		return `${this.typeEmoji[rule.type]} ${typeName} ${CurrencyHelper.format(rule.value)}${description}
+   Todo dia ${rule.dueDay}`;
+	}
+}
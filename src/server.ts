@@ -3,6 +3,7 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import { MessageHandler } from './bot/messageHandler';
+import { SheetLayout } from './sheets/sheetLayout';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -19,6 +20,9 @@ const io = new Server(httpServer, {
 app.use(cors());
 app.use(express.json());
 
+// Valida o layout da planilha (SHEET_LAYOUT_FILE) antes de aceitar mensagens
+SheetLayout.get();
+
 const messageHandler = new MessageHandler();
 
 // Autenticação
@@ -0,0 +1,353 @@
+import { SheetsClient } from './googleSheets';
+import { SheetLayout } from './sheetLayout';
+import { CurrencyHelper } from '../utils/currencyHelper';
+
+/**
+ * Intervalo A1 já interpretado (linhas e colunas a partir de 0, fim inclusivo)
+ * Colunas/linhas inteiras (ex: "A:J") têm fim Infinity
+ */
+interface ParsedRange {
+	sheet: string;
+	startRow: number;
+	startCol: number;
+	endRow: number;
+	endCol: number;
+}
+
+interface FakeSheet {
+	sheetId: number;
+	title: string;
+	cells: Map<string, string>; // "linha,coluna" → conteúdo digitado (valor ou fórmula)
+}
+
+/**
+ * Planilha em memória com a mesma interface do GoogleSheetsService, para testes
+ *
+ * - Intervalos A1 com ou sem aba ("'2026'!C6:F36", "B6", "Lançamentos!A:J")
+ * - Fórmulas simples: referências, números, + e - e SUM(intervalo)
+ *   (ex: "=F6+C7-D7-E7", "=SUM(C6:C36)"), com resultado no formato "R$ 10,00"
+ * - Leituras devolvem o valor exibido, como a API (fórmulas já calculadas)
+ * - Conteúdo iniciado por "'" é texto literal (o "'" não aparece na leitura)
+ */
+export class FakeGoogleSheetsService implements SheetsClient {
+	private sheets: FakeSheet[] = [];
+	private nextSheetId = 0;
+	readonly calls: { method: string; range?: string }[] = []; // Chamadas feitas (para os testes)
+	offline = false; // true: toda chamada falha, como a API fora do ar
+	errorStatus = 503; // Status HTTP do erro quando offline (ex: 403 para planilha sem acesso)
+
+	constructor(
+		private title = 'Planilha de teste',
+		sheetTitles: string[] = ['Página1']
+	) {
+		sheetTitles.forEach((sheetTitle) => this.addSheet(sheetTitle));
+	}
+
+	async getTitle(): Promise<string> {
+		this.record('getTitle');
+		return this.title;
+	}
+
+	async readCell(range: string): Promise<string | null> {
+		this.record('readCell', range);
+		const { sheet, startRow, startCol } = this.parseRange(range);
+		const value = this.getDisplayValue(this.getSheet(sheet), startRow, startCol);
+		return value === '' ? null : value;
+	}
+
+	async readFormula(range: string): Promise<string | null> {
+		this.record('readFormula', range);
+		return this.getRawValue(range);
+	}
+
+	async writeCell(range: string, value: string | number): Promise<void> {
+		this.record('writeCell', range);
+		this.write(range, [[value]]);
+	}
+
+	async readRange(range: string): Promise<any[][]> {
+		this.record('readRange', range);
+		return this.read(range);
+	}
+
+	async writeRange(range: string, values: any[][]): Promise<void> {
+		this.record('writeRange', range);
+		this.write(range, values);
+	}
+
+	async batchWrite(data: { range: string; values: any[][] }[]): Promise<void> {
+		this.record('batchWrite');
+		data.forEach(({ range, values }) => this.write(range, values));
+	}
+
+	/**
+	 * Adiciona após a última linha preenchida das colunas do intervalo
+	 */
+	async appendRows(
+		range: string,
+		values: any[][],
+		valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED'
+	): Promise<void> {
+		this.record('appendRows', range);
+		const parsed = this.parseRange(range);
+		const sheet = this.getSheet(parsed.sheet);
+
+		let lastRow = -1;
+		sheet.cells.forEach((_, key) => {
+			const [row, col] = key.split(',').map(Number);
+			if (col >= parsed.startCol && col <= parsed.endCol) {
+				lastRow = Math.max(lastRow, row);
+			}
+		});
+
+		values.forEach((rowValues, rowIndex) => {
+			rowValues.forEach((value, colIndex) => {
+				// RAW guarda texto literal, como um "'" digitado antes do valor
+				const content = valueInputOption === 'RAW' && typeof value === 'string' && value ? `'${value}` : value;
+				this.setCell(sheet, lastRow + 1 + rowIndex, parsed.startCol + colIndex, content);
+			});
+		});
+	}
+
+	async ensureSheet(title: string): Promise<boolean> {
+		this.record('ensureSheet');
+		if (this.findSheet(title)) {
+			return false;
+		}
+
+		this.addSheet(title);
+		return true;
+	}
+
+	async listSheets(): Promise<{ sheetId: number; title: string; index: number }[]> {
+		this.record('listSheets');
+		return this.sheets.map((sheet, index) => ({ sheetId: sheet.sheetId, title: sheet.title, index }));
+	}
+
+	async duplicateSheet(sourceSheetId: number, newTitle: string, insertIndex: number): Promise<void> {
+		this.record('duplicateSheet');
+		const source = this.sheets.find((sheet) => sheet.sheetId === sourceSheetId);
+		if (!source) {
+			throw new Error(`Aba ${sourceSheetId} não existe`);
+		}
+		if (this.findSheet(newTitle)) {
+			throw new Error(`Já existe uma aba chamada "${newTitle}"`);
+		}
+
+		this.sheets.splice(insertIndex, 0, {
+			sheetId: this.nextSheetId++,
+			title: newTitle,
+			cells: new Map(source.cells),
+		});
+	}
+
+	async clearRanges(ranges: string[]): Promise<void> {
+		this.record('clearRanges');
+		ranges.forEach((range) => {
+			const parsed = this.parseRange(range);
+			const sheet = this.getSheet(parsed.sheet);
+			Array.from(sheet.cells.keys()).forEach((key) => {
+				const [row, col] = key.split(',').map(Number);
+				if (this.contains(parsed, row, col)) {
+					sheet.cells.delete(key);
+				}
+			});
+		});
+	}
+
+	async batchRead(ranges: string[]): Promise<Map<string, string | null>> {
+		this.record('batchRead');
+		const result = new Map<string, string | null>();
+		ranges.forEach((range) => {
+			const values = this.read(range);
+			result.set(range, values.length > 0 && values[0].length > 0 ? values[0][0] : null);
+		});
+		return result;
+	}
+
+	async batchReadRanges(ranges: string[]): Promise<any[][][]> {
+		this.record('batchReadRanges');
+		return ranges.map((range) => this.read(range));
+	}
+
+	/**
+	 * Conteúdo digitado em uma célula (fórmula sem calcular), para os testes
+	 */
+	getRawValue(range: string): string | null {
+		const { sheet, startRow, startCol } = this.parseRange(range);
+		return this.getSheet(sheet).cells.get(`${startRow},${startCol}`) ?? null;
+	}
+
+	/**
+	 * Quantidade de chamadas de um método (ex: "readRange")
+	 */
+	countCalls(method: string): number {
+		return this.calls.filter((call) => call.method === method).length;
+	}
+
+	/**
+	 * Registra a chamada (e falha se a planilha estiver "fora do ar")
+	 */
+	private record(method: string, range?: string): void {
+		this.calls.push({ method, range });
+		if (this.offline) {
+			throw Object.assign(new Error(`Request failed with status code ${this.errorStatus}`), {
+				status: this.errorStatus,
+			});
+		}
+	}
+
+	private addSheet(title: string): void {
+		this.sheets.push({ sheetId: this.nextSheetId++, title, cells: new Map() });
+	}
+
+	private findSheet(title: string): FakeSheet | undefined {
+		return this.sheets.find((sheet) => sheet.title === title);
+	}
+
+	/**
+	 * Aba pelo nome (vazio: a primeira, como na API). Aba inexistente é erro, como na API
+	 */
+	private getSheet(title: string): FakeSheet {
+		const sheet = title ? this.findSheet(title) : this.sheets[0];
+		if (!sheet) {
+			throw new Error(`Unable to parse range: aba "${title}" não existe`);
+		}
+		return sheet;
+	}
+
+	/**
+	 * Interpreta "'Aba'!C6:F36", "Aba!A:J", "B6" etc.
+	 */
+	private parseRange(range: string): ParsedRange {
+		const match = range.match(/^(?:(?:'((?:[^']|'')+)'|([^!']+))!)?([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?$/i);
+		if (!match || (!match[3] && !match[4])) {
+			throw new Error(`Unable to parse range: ${range}`);
+		}
+
+		const sheet = match[1] ? match[1].replace(/''/g, "'") : match[2] || '';
+		const [, , , startLetters, startDigits, endLetters, endDigits] = match;
+		const hasEnd = match[5] !== undefined || match[6] !== undefined;
+
+		const startCol = startLetters ? SheetLayout.letterToColumn(startLetters) : 0;
+		const startRow = startDigits ? parseInt(startDigits) - 1 : 0;
+		const endCol = hasEnd
+			? endLetters
+				? SheetLayout.letterToColumn(endLetters)
+				: Infinity
+			: startLetters
+			? startCol
+			: Infinity;
+		const endRow = hasEnd ? (endDigits ? parseInt(endDigits) - 1 : Infinity) : startDigits ? startRow : Infinity;
+
+		return { sheet, startRow, startCol, endRow, endCol };
+	}
+
+	private contains(range: ParsedRange, row: number, col: number): boolean {
+		return row >= range.startRow && row <= range.endRow && col >= range.startCol && col <= range.endCol;
+	}
+
+	private write(range: string, values: any[][]): void {
+		const { sheet, startRow, startCol } = this.parseRange(range);
+		const target = this.getSheet(sheet);
+		values.forEach((rowValues, rowIndex) => {
+			rowValues.forEach((value, colIndex) => {
+				this.setCell(target, startRow + rowIndex, startCol + colIndex, value);
+			});
+		});
+	}
+
+	private setCell(sheet: FakeSheet, row: number, col: number, value: unknown): void {
+		const content = value === null || value === undefined ? '' : String(value);
+		if (content === '') {
+			sheet.cells.delete(`${row},${col}`);
+		} else {
+			sheet.cells.set(`${row},${col}`, content);
+		}
+	}
+
+	/**
+	 * Lê como a API: até a última linha preenchida, sem células vazias no fim de cada linha
+	 */
+	private read(range: string): any[][] {
+		const parsed = this.parseRange(range);
+		const sheet = this.getSheet(parsed.sheet);
+
+		let lastRow = -1;
+		let lastCol = -1;
+		sheet.cells.forEach((_, key) => {
+			const [row, col] = key.split(',').map(Number);
+			if (this.contains(parsed, row, col)) {
+				lastRow = Math.max(lastRow, row);
+				lastCol = Math.max(lastCol, col);
+			}
+		});
+
+		const rows: any[][] = [];
+		for (let row = parsed.startRow; row <= lastRow; row++) {
+			const values: string[] = [];
+			for (let col = parsed.startCol; col <= lastCol; col++) {
+				values.push(this.getDisplayValue(sheet, row, col));
+			}
+			while (values.length > 0 && values[values.length - 1] === '') {
+				values.pop();
+			}
+			rows.push(values);
+		}
+
+		return rows;
+	}
+
+	/**
+	 * Valor exibido de uma célula (fórmulas calculadas e formatadas como moeda)
+	 */
+	private getDisplayValue(sheet: FakeSheet, row: number, col: number, depth = 0): string {
+		const content = sheet.cells.get(`${row},${col}`) ?? '';
+		if (content.startsWith("'")) {
+			return content.slice(1);
+		}
+		if (!content.startsWith('=')) {
+			return content;
+		}
+
+		return CurrencyHelper.toCell(this.evaluate(sheet, content.slice(1), depth));
+	}
+
+	/**
+	 * Calcula termos somados/subtraídos: números, referências e SUM(intervalo)
+	 */
+	private evaluate(sheet: FakeSheet, expression: string, depth: number): number {
+		if (depth > 100) {
+			throw new Error('Referência circular na fórmula');
+		}
+
+		const terms = expression.replace(/\s+/g, '').match(/[+-]?[^+-]+/g) || [];
+		return terms.reduce((total, term) => {
+			const sign = term.startsWith('-') ? -1 : 1;
+			const operand = term.replace(/^[+-]/, '');
+			return total + sign * this.evaluateOperand(sheet, operand, depth);
+		}, 0);
+	}
+
+	private evaluateOperand(sheet: FakeSheet, operand: string, depth: number): number {
+		const sumMatch = operand.match(/^SUM\((.+)\)$/i);
+		if (sumMatch) {
+			const range = this.parseRange(sumMatch[1]);
+			let total = 0;
+			sheet.cells.forEach((_, key) => {
+				const [row, col] = key.split(',').map(Number);
+				if (this.contains(range, row, col)) {
+					total += CurrencyHelper.parse(this.getDisplayValue(sheet, row, col, depth + 1));
+				}
+			});
+			return total;
+		}
+
+		if (/^\d+([.,]\d+)?$/.test(operand)) {
+			return parseFloat(operand.replace(',', '.'));
+		}
+
+		const { startRow, startCol } = this.parseRange(operand);
+		return CurrencyHelper.parse(this.getDisplayValue(sheet, startRow, startCol, depth + 1));
+	}
+}
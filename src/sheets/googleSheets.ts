@@ -1,20 +1,29 @@
 import { google } from 'googleapis';
 import { JWT } from 'google-auth-library';
 import * as dotenv from 'dotenv';
+import { TokenBucket } from '../utils/tokenBucket';
 
 dotenv.config();
 
+/**
+ * Operações de planilha usadas pelo bot (GoogleSheetsService ou o fake de testes)
+ */
+export type SheetsClient = Pick<GoogleSheetsService, keyof GoogleSheetsService>;
+
 /**
  * Gerenciador de conexão com Google Sheets API
+ * Cada instância acessa uma planilha (padrão: SHEET_ID)
  */
 export class GoogleSheetsService {
+  private static limiter: TokenBucket | null | undefined;
+  private static readonly burst = 10; // Requisições seguidas antes de começar a espaçar
   private auth: JWT;
   private sheets;
   private spreadsheetId: string;
 
-  constructor() {
+  constructor(spreadsheetId: string = process.env.SHEET_ID || '') {
     // Verifica variáveis de ambiente
-    if (!process.env.GOOGLE_CLIENT_EMAIL || !process.env.GOOGLE_PRIVATE_KEY || !process.env.SHEET_ID) {
+    if (!process.env.GOOGLE_CLIENT_EMAIL || !process.env.GOOGLE_PRIVATE_KEY || !spreadsheetId) {
       throw new Error('Variáveis de ambiente do Google Sheets não configuradas corretamente');
     }
 
@@ -26,7 +35,45 @@ export class GoogleSheetsService {
     });
 
     this.sheets = google.sheets({ version: 'v4', auth: this.auth });
-    this.spreadsheetId = process.env.SHEET_ID;
+    this.spreadsheetId = spreadsheetId;
+  }
+
+  /**
+   * Aguarda a vez da requisição no limite de SHEETS_RATE_LIMIT por minuto
+   * (padrão: 60, a cota de leitura da API por usuário; 0 desativa)
+   * O limite vale para todas as planilhas, pois a cota é da conta de serviço
+   */
+  private static async throttle(): Promise<void> {
+    if (this.limiter === undefined) {
+      const perMinute = parseInt(process.env.SHEETS_RATE_LIMIT || '60');
+      this.limiter =
+        perMinute > 0 ? new TokenBucket(Math.min(this.burst, perMinute), perMinute / 60) : null;
+    }
+
+    if (!this.limiter) return;
+
+    if (this.limiter.pending > 0) {
+      console.log(`⏳ Limite da API do Google Sheets: ${this.limiter.pending} requisição(ões) na fila`);
+    }
+    await this.limiter.take();
+  }
+
+  /**
+   * Retorna o título da planilha (também serve para validar o acesso)
+   */
+  async getTitle(): Promise<string> {
+    try {
+      await GoogleSheetsService.throttle();
+      const response = await this.sheets.spreadsheets.get({
+        spreadsheetId: this.spreadsheetId,
+        fields: 'properties.title',
+      });
+
+      return response.data.properties?.title || '';
+    } catch (error) {
+      console.error('Erro ao ler planilha:', error);
+      throw error;
+    }
   }
 
   /**
@@ -34,6 +81,7 @@ export class GoogleSheetsService {
    */
   async readCell(range: string): Promise<string | null> {
     try {
+      await GoogleSheetsService.throttle();
       const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId: this.spreadsheetId,
         range: range,
@@ -51,11 +99,36 @@ export class GoogleSheetsService {
     }
   }
 
+  /**
+   * Lê o conteúdo digitado em uma célula (fórmula sem calcular, ex: "=10+5")
+   */
+  async readFormula(range: string): Promise<string | null> {
+    try {
+      await GoogleSheetsService.throttle();
+      const response = await this.sheets.spreadsheets.values.get({
+        spreadsheetId: this.spreadsheetId,
+        range: range,
+        valueRenderOption: 'FORMULA',
+      });
+
+      const values = response.data.values;
+      if (values && values.length > 0 && values[0].length > 0) {
+        return String(values[0][0]);
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Erro ao ler fórmula:', error);
+      throw error;
+    }
+  }
+
   /**
    * Escreve dados em uma célula específica
    */
   async writeCell(range: string, value: string | number): Promise<void> {
     try {
+      await GoogleSheetsService.throttle();
       await this.sheets.spreadsheets.values.update({
         spreadsheetId: this.spreadsheetId,
         range: range,
@@ -75,6 +148,7 @@ export class GoogleSheetsService {
    */
   async readRange(range: string): Promise<any[][]> {
     try {
+      await GoogleSheetsService.throttle();
       const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId: this.spreadsheetId,
         range: range,
@@ -92,6 +166,7 @@ export class GoogleSheetsService {
    */
   async writeRange(range: string, values: any[][]): Promise<void> {
     try {
+      await GoogleSheetsService.throttle();
       await this.sheets.spreadsheets.values.update({
         spreadsheetId: this.spreadsheetId,
         range: range,
@@ -106,33 +181,179 @@ export class GoogleSheetsService {
     }
   }
 
+  /**
+   * Escreve vários intervalos em uma única requisição
+   */
+  async batchWrite(data: { range: string; values: any[][] }[]): Promise<void> {
+    try {
+      await GoogleSheetsService.throttle();
+      await this.sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: this.spreadsheetId,
+        requestBody: {
+          valueInputOption: 'USER_ENTERED',
+          data: data,
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao escrever intervalos em batch:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adiciona linhas ao final de uma tabela (após a última linha preenchida)
+   * RAW grava o texto como está (sem interpretar "=..." como fórmula)
+   */
+  async appendRows(
+    range: string,
+    values: any[][],
+    valueInputOption: 'RAW' | 'USER_ENTERED' = 'USER_ENTERED'
+  ): Promise<void> {
+    try {
+      await GoogleSheetsService.throttle();
+      await this.sheets.spreadsheets.values.append({
+        spreadsheetId: this.spreadsheetId,
+        range: range,
+        valueInputOption,
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: {
+          values: values,
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao adicionar linhas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Garante que uma aba exista na planilha, criando-a se necessário
+   * Retorna true se a aba foi criada agora
+   */
+  async ensureSheet(title: string): Promise<boolean> {
+    try {
+      await GoogleSheetsService.throttle();
+      const response = await this.sheets.spreadsheets.get({
+        spreadsheetId: this.spreadsheetId,
+        fields: 'sheets.properties.title',
+      });
+
+      const exists = response.data.sheets?.some((sheet) => sheet.properties?.title === title);
+      if (exists) {
+        return false;
+      }
+
+      await GoogleSheetsService.throttle();
+      await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: this.spreadsheetId,
+        requestBody: {
+          requests: [{ addSheet: { properties: { title } } }],
+        },
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Erro ao criar aba:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lista as abas da planilha (na ordem em que aparecem)
+   */
+  async listSheets(): Promise<{ sheetId: number; title: string; index: number }[]> {
+    try {
+      await GoogleSheetsService.throttle();
+      const response = await this.sheets.spreadsheets.get({
+        spreadsheetId: this.spreadsheetId,
+        fields: 'sheets.properties(sheetId,title,index)',
+      });
+
+      return (response.data.sheets || []).map((sheet) => ({
+        sheetId: sheet.properties?.sheetId ?? 0,
+        title: sheet.properties?.title || '',
+        index: sheet.properties?.index ?? 0,
+      }));
+    } catch (error) {
+      console.error('Erro ao listar abas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Duplica uma aba (com fórmulas e formatação) com um novo nome
+   */
+  async duplicateSheet(sourceSheetId: number, newTitle: string, insertIndex: number): Promise<void> {
+    try {
+      await GoogleSheetsService.throttle();
+      await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId: this.spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              duplicateSheet: {
+                sourceSheetId,
+                newSheetName: newTitle,
+                insertSheetIndex: insertIndex,
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      console.error('Erro ao duplicar aba:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apaga o conteúdo de vários intervalos (mantém a formatação)
+   */
+  async clearRanges(ranges: string[]): Promise<void> {
+    try {
+      await GoogleSheetsService.throttle();
+      await this.sheets.spreadsheets.values.batchClear({
+        spreadsheetId: this.spreadsheetId,
+        requestBody: { ranges },
+      });
+    } catch (error) {
+      console.error('Erro ao limpar intervalos:', error);
+      throw error;
+    }
+  }
+
   /**
    * Lê múltiplas células/ranges de uma vez (batch read)
    * Reduz drasticamente o número de requisições à API
    */
   async batchRead(ranges: string[]): Promise<Map<string, string | null>> {
+    const values = await this.batchReadRanges(ranges);
+    const result = new Map<string, string | null>();
+
+    ranges.forEach((range, index) => {
+      const rows = values[index];
+      result.set(range, rows.length > 0 && rows[0].length > 0 ? rows[0][0] : null);
+    });
+
+    return result;
+  }
+
+  /**
+   * Lê vários intervalos inteiros em uma única requisição (batchGet)
+   * Retorna as linhas de cada intervalo, na mesma ordem de ranges
+   */
+  async batchReadRanges(ranges: string[]): Promise<any[][][]> {
     try {
+      await GoogleSheetsService.throttle();
       const response = await this.sheets.spreadsheets.values.batchGet({
         spreadsheetId: this.spreadsheetId,
         ranges: ranges,
       });
 
-      const result = new Map<string, string | null>();
-      
-      response.data.valueRanges?.forEach((valueRange, index) => {
-        const range = ranges[index];
-        const values = valueRange.values;
-        
-        if (values && values.length > 0 && values[0].length > 0) {
-          result.set(range, values[0][0]);
-        } else {
-          result.set(range, null);
-        }
-      });
-
-      return result;
+      const valueRanges = response.data.valueRanges || [];
+      return ranges.map((_, index) => valueRanges[index]?.values || []);
     } catch (error) {
-      console.error('Erro ao ler células em batch:', error);
+      console.error('Erro ao ler intervalos em batch:', error);
       throw error;
     }
   }
@@ -0,0 +1,67 @@
+/**
+ * Cache em memória da grade de cada mês (chave "aaaa-mm")
+ *
+ * - Expira após SHEETS_CACHE_TTL segundos (padrão: 60; 0 desativa), para
+ *   pegar alterações feitas direto na planilha
+ * - Deve ser invalidado a cada escrita do bot no mês
+ * - Leituras simultâneas do mesmo mês compartilham a mesma requisição
+ */
+export class GridCache<T> {
+	private readonly ttl: number;
+	private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+	private pending: Map<string, Promise<T>> = new Map();
+	private versions: Map<string, number> = new Map(); // Muda a cada invalidação
+
+	constructor(ttlSeconds: number = parseInt(process.env.SHEETS_CACHE_TTL ?? '60')) {
+		this.ttl = Math.max(0, ttlSeconds || 0) * 1000;
+	}
+
+	/**
+	 * Valor do mês em cache ou carregado com load
+	 */
+	async get(month: number, year: number, load: () => Promise<T>): Promise<T> {
+		const key = this.getKey(month, year);
+
+		const cached = this.entries.get(key);
+		if (cached && cached.expiresAt > Date.now()) {
+			return cached.value;
+		}
+
+		const inFlight = this.pending.get(key);
+		if (inFlight) {
+			return inFlight;
+		}
+
+		const version = this.versions.get(key) || 0;
+		const loading = load()
+			.then((value) => {
+				// Não guarda o que foi lido antes de uma escrita que terminou no meio da leitura
+				if (this.ttl > 0 && (this.versions.get(key) || 0) === version) {
+					this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+				}
+				return value;
+			})
+			.finally(() => {
+				if (this.pending.get(key) === loading) {
+					this.pending.delete(key);
+				}
+			});
+
+		this.pending.set(key, loading);
+		return loading;
+	}
+
+	/**
+	 * Descarta o mês (após uma escrita)
+	 */
+	invalidate(month: number, year: number): void {
+		const key = this.getKey(month, year);
+		this.entries.delete(key);
+		this.pending.delete(key);
+		this.versions.set(key, (this.versions.get(key) || 0) + 1);
+	}
+
+	private getKey(month: number, year: number): string {
+		return `${year}-${month.toString().padStart(2, '0')}`;
+	}
+}
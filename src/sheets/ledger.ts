@@ -0,0 +1,144 @@
+import { SheetsClient } from './googleSheets';
+import { LedgerEntry } from '../types';
+import { DateHelper } from '../utils/dateHelper';
+import { CurrencyHelper } from '../utils/currencyHelper';
+
+/**
+ * Livro de lançamentos: registra cada valor individualmente em uma aba
+ * dedicada, enquanto a grade mensal continua guardando apenas os totais do dia
+ */
+export class TransactionLedger {
+	private sheetsService: SheetsClient;
+	private readonly sheetName: string;
+	private readonly headers = [
+		'Registrado em',
+		'Chat',
+		'Remetente',
+		'Tipo',
+		'Valor',
+		'Data',
+		'Mensagem',
+		'Substituição',
+		'Descrição',
+		'Categoria',
+	];
+	private ready: Promise<void> | null = null;
+
+	constructor(sheetsService: SheetsClient) {
+		this.sheetsService = sheetsService;
+		this.sheetName = process.env.LEDGER_SHEET_NAME || 'Lançamentos';
+	}
+
+	/**
+	 * Range A1 da aba de lançamentos (nome entre aspas por causa de acentos/espaços)
+	 */
+	private getRange(): string {
+		return `'${this.sheetName.replace(/'/g, "''")}'!A:J`;
+	}
+
+	/**
+	 * Cria a aba com cabeçalho na primeira utilização
+	 */
+	private ensureReady(): Promise<void> {
+		if (!this.ready) {
+			this.ready = (async () => {
+				const created = await this.sheetsService.ensureSheet(this.sheetName);
+				if (created) {
+					await this.sheetsService.appendRows(this.getRange(), [this.headers]);
+				}
+			})().catch((error) => {
+				// Permite nova tentativa no próximo registro
+				this.ready = null;
+				throw error;
+			});
+		}
+
+		return this.ready;
+	}
+
+	/**
+	 * Adiciona os lançamentos como novas linhas (uma única requisição)
+	 */
+	async record(entries: LedgerEntry[]): Promise<void> {
+		if (entries.length === 0) return;
+
+		await this.ensureReady();
+
+		const rows = entries.map((entry) => [
+			DateHelper.formatDateTime(entry.recordedAt),
+			entry.chatId,
+			entry.sender,
+			entry.type,
+			CurrencyHelper.toCell(entry.value),
+			DateHelper.formatDate(new Date(entry.year, entry.month - 1, entry.day)),
+			entry.rawText,
+			entry.shouldReplace ? 'sim' : 'não',
+			entry.description,
+			entry.category,
+		]);
+
+		// RAW: descrição e frase original vêm do chat e não podem virar fórmula
+		await this.sheetsService.appendRows(this.getRange(), rows, 'RAW');
+	}
+
+	/**
+	 * Lê os lançamentos de um mês (pela data do lançamento, não do registro)
+	 */
+	async getEntries(month: number, year: number): Promise<LedgerEntry[]> {
+		await this.ensureReady();
+
+		const rows = await this.sheetsService.readRange(this.getRange());
+		const entries: LedgerEntry[] = [];
+
+		// Primeira linha é o cabeçalho
+		rows.slice(1).forEach((row) => {
+			const entry = this.parseRow(row);
+			if (entry && entry.month === month && entry.year === year) {
+				entries.push(entry);
+			}
+		});
+
+		return entries;
+	}
+
+	/**
+	 * Converte uma linha da aba em lançamento (null se estiver incompleta)
+	 */
+	private parseRow(row: any[]): LedgerEntry | null {
+		const [recordedAt, chatId, sender, type, value, date, rawText, replace, description, category] =
+			row.map((cell) => (cell === undefined || cell === null ? '' : String(cell)));
+
+		const dateMatch = (date || '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+		if (!dateMatch || !['entrada', 'saida', 'diario'].includes(type)) {
+			return null;
+		}
+
+		const recordedMatch = (recordedAt || '').match(
+			/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/
+		);
+
+		return {
+			recordedAt: recordedMatch
+				? new Date(
+						parseInt(recordedMatch[3]),
+						parseInt(recordedMatch[2]) - 1,
+						parseInt(recordedMatch[1]),
+						parseInt(recordedMatch[4]),
+						parseInt(recordedMatch[5]),
+						parseInt(recordedMatch[6] || '0')
+				  )
+				: new Date(0),
+			chatId: chatId || '',
+			sender: sender || '',
+			type: type as LedgerEntry['type'],
+			value: CurrencyHelper.parse(value || null),
+			day: parseInt(dateMatch[1]),
+			month: parseInt(dateMatch[2]),
+			year: parseInt(dateMatch[3]),
+			rawText: rawText || '',
+			shouldReplace: replace === 'sim',
+			description: description || '',
+			category: category || '',
+		};
+	}
+}
@@ -0,0 +1,254 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { SheetColumns, SheetLayoutDescriptor, SheetTotalCells } from '../types';
+
+/**
+ * Layout padrão (planilha original):
+ * - Dia 1 na linha 6, dia 31 na linha 36
+ * - Janeiro nas colunas B-F, cada mês 6 colunas à direita do anterior
+ * - Totais na linha 40 (entradas, saídas, diário) e 43 (saída total, performance)
+ */
+export const DEFAULT_SHEET_LAYOUT: SheetLayoutDescriptor = {
+	firstDayRow: 6,
+	monthBlockWidth: 6,
+	columns: { day: 'B', entrada: 'C', saida: 'D', diario: 'E', saldo: 'F' },
+	totals: { entrada: 'C40', saida: 'D40', diario: 'E40', saidaTotal: 'B43', performance: 'E43' },
+};
+
+const MAX_DAYS = 31;
+
+/**
+ * Posições da grade de meses de uma aba anual
+ *
+ * O layout pode ser trocado com SHEET_LAYOUT_FILE (JSON no formato de
+ * DEFAULT_SHEET_LAYOUT; campos omitidos usam o padrão). O arquivo é validado
+ * ao iniciar o bot, para que um layout errado não grave valores em células erradas.
+ */
+export class SheetLayout {
+	private static current: SheetLayout | null = null;
+
+	private readonly columns: Record<keyof SheetColumns, number>;
+	private readonly totals: Record<keyof SheetTotalCells, { column: number; row: number }>;
+
+	private constructor(readonly descriptor: SheetLayoutDescriptor) {
+		this.columns = mapValues(descriptor.columns, (letter) => SheetLayout.letterToColumn(letter));
+		this.totals = mapValues(descriptor.totals, (cell) => SheetLayout.parseCell(cell)!);
+	}
+
+	/**
+	 * Layout em uso (carregado na primeira chamada)
+	 */
+	static get(): SheetLayout {
+		if (!this.current) {
+			this.current = this.load();
+		}
+		return this.current;
+	}
+
+	/**
+	 * Carrega e valida o layout de SHEET_LAYOUT_FILE (ou o padrão)
+	 * Lança erro com todos os problemas encontrados se o arquivo for inválido
+	 */
+	static load(): SheetLayout {
+		const file = process.env.SHEET_LAYOUT_FILE;
+		if (!file) {
+			return new SheetLayout(DEFAULT_SHEET_LAYOUT);
+		}
+
+		let content: Partial<SheetLayoutDescriptor>;
+		try {
+			content = JSON.parse(readFileSync(resolve(file), 'utf-8'));
+		} catch (error) {
+			throw new Error(`Não foi possível ler o layout da planilha em ${file}: ${error}`);
+		}
+
+		const descriptor: SheetLayoutDescriptor = {
+			...DEFAULT_SHEET_LAYOUT,
+			...content,
+			columns: { ...DEFAULT_SHEET_LAYOUT.columns, ...content.columns },
+			totals: { ...DEFAULT_SHEET_LAYOUT.totals, ...content.totals },
+		};
+
+		const errors = this.validate(descriptor);
+		if (errors.length > 0) {
+			throw new Error(
+				`Layout da planilha inválido (${file}):\n${errors.map((e) => `   - ${e}`).join('\n')}`
+			);
+		}
+
+		return new SheetLayout(descriptor);
+	}
+
+	/**
+	 * Lista os problemas do layout (vazio se estiver válido)
+	 */
+	static validate(descriptor: SheetLayoutDescriptor): string[] {
+		const errors: string[] = [];
+		const { firstDayRow, monthBlockWidth, columns, totals } = descriptor;
+
+		if (!Number.isInteger(firstDayRow) || firstDayRow < 1) {
+			errors.push(`firstDayRow deve ser um número de linha (recebido: ${firstDayRow})`);
+		}
+		if (!Number.isInteger(monthBlockWidth) || monthBlockWidth < 1) {
+			errors.push(`monthBlockWidth deve ser um inteiro positivo (recebido: ${monthBlockWidth})`);
+		}
+
+		// Colunas: letras válidas, sem repetição e dentro do bloco do mês
+		const columnNumbers: number[] = [];
+		for (const [role, letter] of Object.entries(columns)) {
+			if (typeof letter !== 'string' || !/^[A-Z]{1,3}$/i.test(letter)) {
+				errors.push(`columns.${role} deve ser uma letra de coluna (recebido: ${letter})`);
+				continue;
+			}
+			const column = this.letterToColumn(letter);
+			if (columnNumbers.includes(column)) {
+				errors.push(`columns.${role} repete a coluna ${letter.toUpperCase()}`);
+			}
+			columnNumbers.push(column);
+		}
+
+		const blockStart = Math.min(...columnNumbers);
+		const blockEnd = blockStart + monthBlockWidth - 1;
+		if (columnNumbers.length > 0 && Math.max(...columnNumbers) > blockEnd) {
+			errors.push(
+				`as colunas ocupam mais que monthBlockWidth (${monthBlockWidth}) colunas; os meses se sobreporiam`
+			);
+		}
+
+		// Totais: células válidas, fora das linhas dos dias e dentro do bloco do mês
+		const lastDayRow = firstDayRow + MAX_DAYS - 1;
+		for (const [role, cell] of Object.entries(totals)) {
+			const parsed = typeof cell === 'string' ? this.parseCell(cell) : null;
+			if (!parsed) {
+				errors.push(`totals.${role} deve ser uma célula como "C40" (recebido: ${cell})`);
+				continue;
+			}
+			if (parsed.row >= firstDayRow && parsed.row <= lastDayRow) {
+				errors.push(
+					`totals.${role} (${cell}) fica nas linhas dos dias (${firstDayRow}-${lastDayRow})`
+				);
+			}
+			if (columnNumbers.length > 0 && (parsed.column < blockStart || parsed.column > blockEnd)) {
+				errors.push(`totals.${role} (${cell}) fica fora do bloco de janeiro`);
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Linha do dia 1
+	 */
+	get firstDayRow(): number {
+		return this.descriptor.firstDayRow;
+	}
+
+	/**
+	 * Linha de um dia do mês
+	 */
+	getRow(day: number): number {
+		return this.descriptor.firstDayRow + day - 1;
+	}
+
+	/**
+	 * Linha do dia 31 (última linha de lançamentos de qualquer mês)
+	 */
+	get lastDayRow(): number {
+		return this.getRow(MAX_DAYS);
+	}
+
+	/**
+	 * Deslocamento de colunas de um mês em relação a janeiro
+	 */
+	getColumnOffset(month: number): number {
+		return (month - 1) * this.descriptor.monthBlockWidth;
+	}
+
+	/**
+	 * Letra da coluna de um papel (entrada, saída...) deslocada para o mês
+	 */
+	getColumn(role: keyof SheetColumns, columnOffset: number): string {
+		return SheetLayout.columnToLetter(this.columns[role] + columnOffset);
+	}
+
+	/**
+	 * Célula de um total (ex: entrada em fevereiro → "I40")
+	 */
+	getTotalCell(role: keyof SheetTotalCells, columnOffset: number): string {
+		const { column, row } = this.totals[role];
+		return `${SheetLayout.columnToLetter(column + columnOffset)}${row}`;
+	}
+
+	/**
+	 * Colunas de valores (entrada, saída, diário e saldo) em um único intervalo
+	 * com a posição de cada uma dentro dele, para ler vários dias de uma vez
+	 */
+	getValueSpan(columnOffset: number): {
+		startCol: string;
+		endCol: string;
+		index: Record<'entrada' | 'saida' | 'diario' | 'saldo', number>;
+	} {
+		const roles = ['entrada', 'saida', 'diario', 'saldo'] as const;
+		const first = Math.min(...roles.map((role) => this.columns[role]));
+		const last = Math.max(...roles.map((role) => this.columns[role]));
+
+		return {
+			startCol: SheetLayout.columnToLetter(first + columnOffset),
+			endCol: SheetLayout.columnToLetter(last + columnOffset),
+			index: {
+				entrada: this.columns.entrada - first,
+				saida: this.columns.saida - first,
+				diario: this.columns.diario - first,
+				saldo: this.columns.saldo - first,
+			},
+		};
+	}
+
+	/**
+	 * Converte número de coluna para letra (0 = A, 1 = B, etc.)
+	 */
+	static columnToLetter(column: number): string {
+		let temp: number;
+		let letter = '';
+
+		while (column >= 0) {
+			temp = column % 26;
+			letter = String.fromCharCode(temp + 65) + letter;
+			column = Math.floor(column / 26) - 1;
+		}
+
+		return letter;
+	}
+
+	/**
+	 * Converte letra de coluna para número (A = 0, B = 1, AA = 26, etc.)
+	 */
+	static letterToColumn(letter: string): number {
+		return (
+			letter
+				.toUpperCase()
+				.split('')
+				.reduce((total, char) => total * 26 + (char.charCodeAt(0) - 64), 0) - 1
+		);
+	}
+
+	/**
+	 * Separa uma célula A1 em coluna e linha (null se não for válida)
+	 */
+	private static parseCell(cell: string): { column: number; row: number } | null {
+		const match = cell.match(/^([A-Z]{1,3})(\d+)$/i);
+		if (!match || parseInt(match[2]) < 1) return null;
+		return { column: this.letterToColumn(match[1]), row: parseInt(match[2]) };
+	}
+}
+
+function mapValues<T extends object, R>(
+	object: T,
+	transform: (value: T[keyof T]) => R
+): Record<keyof T, R> {
+	const result = {} as Record<keyof T, R>;
+	(Object.keys(object) as (keyof T)[]).forEach((key) => {
+		result[key] = transform(object[key]);
+	});
+	return result;
+}
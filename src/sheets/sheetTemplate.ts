@@ -0,0 +1,119 @@
+import { SheetsClient } from './googleSheets';
+import { SheetLayout } from './sheetLayout';
+import { SheetColumns, SheetTotalCells } from '../types';
+
+const COLUMN_HEADERS: Record<keyof SheetColumns, string> = {
+	day: 'Dia',
+	entrada: 'Entrada',
+	saida: 'Saída',
+	diario: 'Diário',
+	saldo: 'Saldo',
+};
+
+const TOTAL_LABELS: Record<keyof SheetTotalCells, string> = {
+	entrada: 'Total Entradas',
+	saida: 'Total Saídas',
+	diario: 'Total Diário',
+	saidaTotal: 'Saída Total',
+	performance: 'Performance',
+};
+
+/**
+ * Monta a grade que o SheetUpdater espera em uma aba vazia, seguindo o layout
+ * em uso (ver SheetLayout):
+ * - nome do mês e cabeçalhos acima do dia 1
+ * - números dos dias (1 a 31)
+ * - saldo acumulado do mês (entradas - saídas - diário)
+ * - totais do mês, Saída Total (saídas + diário) e Performance (entradas - Saída Total)
+ */
+export class SheetTemplate {
+	constructor(
+		private sheetsService: SheetsClient,
+		private layout: SheetLayout = SheetLayout.get()
+	) {}
+
+	/**
+	 * Cria a aba com a grade dos 12 meses
+	 * Retorna false se já existir uma aba com esse nome (nada é sobrescrito)
+	 */
+	async build(sheetName: string): Promise<boolean> {
+		const sheets = await this.sheetsService.listSheets();
+		if (sheets.some((sheet) => sheet.title === sheetName)) {
+			return false;
+		}
+
+		await this.sheetsService.ensureSheet(sheetName);
+
+		const quotedName = `'${sheetName.replace(/'/g, "''")}'`;
+		await this.sheetsService.batchWrite(
+			this.getCells().map(({ cell, value }) => ({
+				range: `${quotedName}!${cell}`,
+				values: [[value]],
+			}))
+		);
+
+		return true;
+	}
+
+	/**
+	 * Conteúdo de cada célula da grade (valores e fórmulas, em A1)
+	 */
+	getCells(): { cell: string; value: string | number }[] {
+		const cells: { cell: string; value: string | number }[] = [];
+		const { firstDayRow, lastDayRow } = this.layout;
+
+		for (let month = 1; month <= 12; month++) {
+			const offset = this.layout.getColumnOffset(month);
+			const column = (role: keyof SheetColumns) => this.layout.getColumn(role, offset);
+			const total = (role: keyof SheetTotalCells) => this.layout.getTotalCell(role, offset);
+
+			// Nome do mês e cabeçalhos (quando há linhas livres acima do dia 1)
+			if (firstDayRow > 2) {
+				const monthName = new Intl.DateTimeFormat('pt-BR', { month: 'long' }).format(
+					new Date(2000, month - 1, 1)
+				);
+				cells.push({ cell: `${column('day')}${firstDayRow - 2}`, value: monthName.toUpperCase() });
+			}
+			if (firstDayRow > 1) {
+				(Object.keys(COLUMN_HEADERS) as (keyof SheetColumns)[]).forEach((role) => {
+					cells.push({ cell: `${column(role)}${firstDayRow - 1}`, value: COLUMN_HEADERS[role] });
+				});
+			}
+
+			// Dias e saldo acumulado
+			for (let day = 1; day <= 31; day++) {
+				const row = this.layout.getRow(day);
+				const movement = `${column('entrada')}${row}-${column('saida')}${row}-${column('diario')}${row}`;
+				const previous = day > 1 ? `${column('saldo')}${row - 1}+` : '';
+
+				cells.push({ cell: `${column('day')}${row}`, value: day });
+				cells.push({ cell: `${column('saldo')}${row}`, value: `=${previous}${movement}` });
+			}
+
+			// Totais (com o rótulo na célula de cima, se estiver livre)
+			const totalFormulas: Record<keyof SheetTotalCells, string> = {
+				entrada: `=SUM(${column('entrada')}${firstDayRow}:${column('entrada')}${lastDayRow})`,
+				saida: `=SUM(${column('saida')}${firstDayRow}:${column('saida')}${lastDayRow})`,
+				diario: `=SUM(${column('diario')}${firstDayRow}:${column('diario')}${lastDayRow})`,
+				saidaTotal: `=${total('saida')}+${total('diario')}`,
+				performance: `=${total('entrada')}-${total('saidaTotal')}`,
+			};
+			const roles = Object.keys(totalFormulas) as (keyof SheetTotalCells)[];
+			const totalCells = roles.map(total);
+
+			roles.forEach((role) => {
+				const cell = total(role);
+				cells.push({ cell, value: totalFormulas[role] });
+
+				const [, letters, row] = cell.match(/^([A-Z]+)(\d+)$/)!;
+				const labelRow = parseInt(row) - 1;
+				const labelCell = `${letters}${labelRow}`;
+				if (labelRow > lastDayRow && !totalCells.includes(labelCell)) {
+					cells.push({ cell: labelCell, value: TOTAL_LABELS[role] });
+				}
+			});
+		}
+
+		return cells;
+	}
+}
@@ -1,157 +1,336 @@
-import { GoogleSheetsService } from './googleSheets';
+import { GoogleSheetsStorage } from '../storage/googleSheetsStorage';
+import { createFinanceStorage, FinanceStorage, isTransientStorageError } from '../storage/financeStorage';
+import { WriteQueue } from './writeQueue';
+import { KeyedMutex } from '../utils/keyedMutex';
+import { JsonStore } from '../utils/jsonStore';
 import {
 	UpdateRequest,
-	SheetConfig,
 	BotResponse,
 	DayData,
 	PeriodSummary,
 	MonthSummary,
+	CellChange,
+	LedgerEntry,
+	CategoryTotal,
 } from '../types';
 import { DateHelper } from '../utils/dateHelper';
+import { CurrencyHelper } from '../utils/currencyHelper';
 
 /**
  * Gerencia atualizações na planilha de finanças
+ * Os dados ficam no armazenamento configurado (Google Sheets ou SQLite, ver FinanceStorage)
  */
 export class SheetUpdater {
-	private sheetsService: GoogleSheetsService;
+	private storage: FinanceStorage;
+	private writeQueue: WriteQueue; // Valores que falharam, gravados quando a planilha voltar
+	private static cellLocks = new KeyedMutex(); // Compartilhado: pode haver mais de uma instância por planilha
+	private readonly lockScope: string;
+	private readonly formulaWrites: boolean;
+	private static undoStore: JsonStore<Record<string, CellChange[]>> | null = null;
+	private readonly maxUndoSteps = 20; // Mantém as últimas 20 escritas por chat
 
-	constructor() {
-		this.sheetsService = new GoogleSheetsService();
+	/**
+	 * @param spreadsheetId planilha usada (padrão: SHEET_ID)
+	 * @param storage armazenamento (padrão: o configurado em STORAGE_PROVIDER)
+	 */
+	constructor(spreadsheetId?: string, storage?: FinanceStorage) {
+		this.storage = storage || createFinanceStorage(spreadsheetId);
+		this.lockScope = spreadsheetId || 'default';
+		this.formulaWrites = (process.env.SHEETS_FORMULA_WRITES || '').toLowerCase() === 'true';
+		this.writeQueue = new WriteQueue(
+			spreadsheetId || 'default',
+			(request) => this.applyQueuedUpdate(request),
+			isTransientStorageError
+		);
 	}
 
 	/**
-	 * Retorna a configuração da planilha para um determinado mês/ano
-	 *
-	 * Estrutura:
-	 * - JANEIRO: linhas 6-36, colunas B-F
-	 * - FEVEREIRO: linhas 6-34 (ano bissexto, 29 dias), colunas H-L (offset de 6)
-	 * - MARÇO: linhas 6-36, colunas N-R (offset de 12)
-	 * - ABRIL: linhas 6-35 (30 dias), colunas T-X (offset de 18)
-	 * - etc...
-	 */
-	private getSheetConfig(month: number, year: number): SheetConfig {
-		// Calcula o offset de colunas baseado no mês
-		// Janeiro = 0, Fevereiro = 6, Março = 12, etc.
-		const columnOffset = (month - 1) * 6;
-
-		// Linha inicial é sempre 6
-		const startRow = 6;
-
-		// Determina a linha final baseado no mês
-		let endRow = 36; // Padrão: 31 dias (dia 31 = linha 36)
-
-		// Ajusta para meses com menos dias
-		if (month === 2) {
-			// Fevereiro
-			const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
-			endRow = isLeapYear ? 34 : 33; // 29 ou 28 dias
-		} else if ([4, 6, 9, 11].includes(month)) {
-			// Abril, Junho, Setembro, Novembro
-			endRow = 35; // 30 dias (dia 30 = linha 35)
-		}
-
-		return {
-			month,
-			year,
-			startRow,
-			endRow,
-			columnOffset,
-		};
+	 * Título da planilha (falha se a conta de serviço não tiver acesso)
+	 */
+	async getSpreadsheetTitle(): Promise<string> {
+		return this.storage.getTitle();
 	}
 
 	/**
-	 * Converte número de coluna para letra (0 = A, 1 = B, etc.)
+	 * Gera a aba modelo com a grade dos 12 meses (cabeçalhos, dias, saldo e totais)
+	 * e cria a aba do ano atual a partir dela
 	 */
-	private columnToLetter(column: number): string {
-		let temp: number;
-		let letter = '';
+	async createTemplate(): Promise<string> {
+		if (!(this.storage instanceof GoogleSheetsStorage)) {
+			return `ℹ️ Nada para configurar
 
-		while (column >= 0) {
-			temp = column % 26;
-			letter = String.fromCharCode(temp + 65) + letter;
-			column = Math.floor(column / 26) - 1;
+O armazenamento local (${this.storage.name})
+já calcula saldo e totais sozinho.`;
 		}
 
-		return letter;
+		const year = DateHelper.getBrasiliaTime().getFullYear();
+
+		try {
+			const { created, templateName, yearSheetName } = await this.storage.createTemplate(year);
+			if (!created) {
+				return `⚠️ A aba "${templateName}" já existe!
+
+Nada foi alterado. Apague ou
+renomeie a aba para gerar
+o modelo de novo.`;
+			}
+
+			console.log(`📄 Aba modelo "${templateName}" criada`);
+
+			return `✅ Planilha configurada!
+
+📄 Aba modelo: ${templateName}
+📅 Aba do ano: ${yearSheetName || '⚠️ não criada'}
+
+Os próximos anos serão criados
+automaticamente a partir do modelo.`;
+		} catch (error) {
+			console.error('Erro ao criar aba modelo:', error);
+			return `❌ Erro ao configurar a planilha.
+
+💡 Verifique se a conta de serviço
+   tem acesso de editor.`;
+		}
 	}
 
 	/**
-	 * Retorna a letra da coluna baseado no tipo e offset
+	 * Quantidade de dias do mês
 	 */
-	private getColumnLetter(type: 'entrada' | 'saida' | 'diario', columnOffset: number): string {
-		// Colunas base (Janeiro):
-		// B = Dia (1)
-		// C = Entrada (2)
-		// D = Saída (3)
-		// E = Diário (4)
-		// F = Saldo (5)
+	private getDaysInMonth(month: number, year: number): number {
+		return new Date(year, month, 0).getDate();
+	}
 
-		const baseColumns = {
-			entrada: 2, // Coluna C
-			saida: 3, // Coluna D
-			diario: 4, // Coluna E
-		};
+	/**
+	 * Atualiza um valor na planilha
+	 *
+	 * @param options.queue false: se a planilha não responder, falha em vez de ir
+	 *   para a fila (para quem tenta de novo sozinho, como os recorrentes)
+	 */
+	async updateValue(request: UpdateRequest, options: { queue?: boolean } = {}): Promise<BotResponse> {
+		const { queue = true } = options;
+		const invalid = this.validateRequest(request);
+		if (invalid) {
+			return invalid;
+		}
 
-		const columnNumber = baseColumns[type] + columnOffset;
-		return this.columnToLetter(columnNumber);
+		// Valores anteriores ainda na fila: tenta gravá-los agora; se a planilha
+		// continuar fora, este entra depois deles para manter a ordem
+		if (!(await this.drainQueue())) {
+			return queue ? this.queueUpdate(request) : this.getUnavailableResponse();
+		}
+
+		try {
+			// Garante a aba do ano (criada a partir do modelo na primeira escrita)
+			if (!(await this.prepareYear(request.year, request.month))) {
+				return this.getMissingYearResponse(request.year);
+			}
+
+			const { cellRange, formattedValue } = await this.applyUpdate(request);
+			return this.getSuccessResponse(request, cellRange, formattedValue);
+		} catch (error) {
+			console.error('Erro ao atualizar planilha:', error);
+			if (!isTransientStorageError(error)) {
+				return this.getWriteErrorResponse();
+			}
+			return queue ? this.queueUpdate(request, error) : this.getUnavailableResponse();
+		}
 	}
 
 	/**
-	 * Calcula a linha na planilha baseado no dia do mês
-	 * Dia 1 = linha 6
+	 * Atualiza vários valores de uma vez (mensagem com várias linhas)
+	 *
+	 * As células são lidas e gravadas em uma única requisição cada, e os
+	 * lançamentos entram juntos no livro. Retorna uma resposta por pedido,
+	 * na mesma ordem (datas inválidas não impedem as demais linhas).
 	 */
-	private getRowNumber(day: number, config: SheetConfig): number {
-		// A linha 6 corresponde ao dia 1
-		return config.startRow + (day - 1);
+	async updateValues(requests: UpdateRequest[]): Promise<BotResponse[]> {
+		const responses: (BotResponse | null)[] = requests.map((request) => this.validateRequest(request));
+		let pending = requests.filter((_, index) => !responses[index]);
+
+		if (pending.length === 0) {
+			return responses as BotResponse[];
+		}
+
+		const fill = (request: UpdateRequest, response: BotResponse) => {
+			responses[requests.indexOf(request)] = response;
+		};
+
+		// Valores anteriores ainda na fila: se não saírem agora, todos entram depois deles
+		if (!(await this.drainQueue())) {
+			pending.forEach((request) => fill(request, this.queueUpdate(request)));
+			return responses as BotResponse[];
+		}
+
+		try {
+			const years = Array.from(new Set(pending.map((request) => request.year)));
+			for (const year of years) {
+				const months = pending.filter((request) => request.year === year).map((request) => request.month);
+				if (!(await this.prepareYear(year, Math.max(...months)))) {
+					const missing = this.getMissingYearResponse(year);
+					pending.filter((request) => request.year === year).forEach((request) => fill(request, missing));
+				}
+			}
+			pending = pending.filter((request) => !responses[requests.indexOf(request)]);
+
+			const results = await this.applyUpdates(pending);
+			pending.forEach((request, index) => {
+				const { cellRange, formattedValue } = results[index];
+				fill(request, this.getSuccessResponse(request, cellRange, formattedValue));
+			});
+		} catch (error) {
+			console.error('Erro ao atualizar planilha:', error);
+			pending.forEach((request) =>
+				fill(
+					request,
+					isTransientStorageError(error) ? this.queueUpdate(request, error) : this.getWriteErrorResponse()
+				)
+			);
+		}
+
+		return responses as BotResponse[];
 	}
 
 	/**
-	 * Atualiza um valor na planilha
+	 * Valida a data do pedido (null se estiver tudo certo)
 	 */
-	async updateValue(request: UpdateRequest): Promise<BotResponse> {
-		try {
-			const { type, value, day, month, year, shouldReplace = false } = request;
+	private validateRequest(request: UpdateRequest): BotResponse | null {
+		const { day, month, year } = request;
 
-			// Validações
-			if (day < 1 || day > 31) {
-				return {
-					success: false,
-					message: `⚠️ Data inválida!
+		if (day < 1 || day > 31) {
+			return {
+				success: false,
+				message: `⚠️ Data inválida!
 
 Dia ${day} não existe.
 
 💡 Use datas entre 1 e 31`,
-				};
-			}
-
-			// Obtém configuração do mês
-			const config = this.getSheetConfig(month, year);
+			};
+		}
 
-			// Valida se o dia existe neste mês
-			const maxDay = config.endRow - config.startRow + 1;
-			if (day > maxDay) {
-				return {
-					success: false,
-					message: `⚠️ Data inválida!
+		// Valida se o dia existe neste mês
+		const maxDay = this.getDaysInMonth(month, year);
+		if (day > maxDay) {
+			return {
+				success: false,
+				message: `⚠️ Data inválida!
 
 ${month}/${year} tem apenas
 ${maxDay} dias.
 
 💡 Use uma data válida`,
-				};
-			}
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Garante a aba do ano; em dezembro, já prepara a do ano seguinte
+	 * Retorna false se não houver aba nem modelo
+	 */
+	private async prepareYear(year: number, month: number): Promise<boolean> {
+		if (!(await this.storage.ensureYear(year))) {
+			return false;
+		}
+
+		if (month === 12) {
+			this.storage.ensureYear(year + 1).catch((error) => {
+				console.error(`Erro ao preparar a aba de ${year + 1}:`, error);
+			});
+		}
+
+		return true;
+	}
+
+	private getMissingYearResponse(year: number): BotResponse {
+		return {
+			success: false,
+			message: `⚠️ Aba ${year} não encontrada!
+
+Crie a aba "${year}" ou uma
+aba modelo na planilha.
+
+💡 Use "configurar planilha"
+   para gerar o modelo.`,
+		};
+	}
+
+	/**
+	 * Confirmação de um valor gravado
+	 */
+	private getSuccessResponse(
+		request: UpdateRequest,
+		cellRange: string,
+		formattedValue: string
+	): BotResponse {
+		const { type, value, day, month, year, shouldReplace = false } = request;
+
+		// Monta mensagem de sucesso
+		const dateStr = DateHelper.formatDate(new Date(year, month - 1, day));
+		const typeLabel = {
+			entrada: '💰 Entrada',
+			saida: '💸 Saída',
+			diario: '🍽️ Diário',
+		}[type];
+
+		const typeEmoji = {
+			entrada: '💰',
+			saida: '💸',
+			diario: '🍽️',
+		}[type];
+
+		const valueFormatted = `R$ ${value.toFixed(2).replace('.', ',')}`;
+		const descriptionLine =
+			this.formatExpressionLine(request.expression) +
+			this.formatDescriptionLine(request.description, request.category);
+
+		return {
+			success: true,
+			message: shouldReplace
+				? `✅ Valor atualizado!
+
+${typeEmoji} ${type.charAt(0).toUpperCase() + type.slice(1)}
+   ${formattedValue}
+${descriptionLine}
+📅 Data: ${dateStr}`
+				: `✅ Valor adicionado!
+
+${typeEmoji} ${type.charAt(0).toUpperCase() + type.slice(1)}
+   + ${valueFormatted}
+${descriptionLine}
+📅 Data: ${dateStr}
+💵 Total: ${formattedValue}`,
+			details: {
+				type: typeLabel,
+				value: formattedValue,
+				date: dateStr,
+				column: cellRange,
+			},
+		};
+	}
 
-			// Calcula posição na planilha
-			const columnLetter = this.getColumnLetter(type, config.columnOffset);
-			const rowNumber = this.getRowNumber(day, config);
-			const cellRange = `${columnLetter}${rowNumber}`;
+	/**
+	 * Soma ou substitui o valor na grade, guarda a alteração para desfazer
+	 * e registra o lançamento (usado também ao sincronizar a fila)
+	 */
+	private async applyUpdate(
+		request: UpdateRequest
+	): Promise<{ cellRange: string; formattedValue: string }> {
+		const { type, value, day, month, year, shouldReplace = false } = request;
+
+		// Posição do valor (para a confirmação e o histórico de desfazer)
+		const cellRange = this.storage.describeLocation(type, day, month, year);
+
+		// Ler, somar e gravar sem outra mensagem no meio (senão uma das somas se perde)
+		const formattedValue = await this.withCellLock(request, async () => {
+			// Lê o conteúdo atual (para somar e para permitir desfazer)
+			const currentCellValue = await this.storage.readValue(type, day, month, year);
 
 			// Determina o valor final
 			let finalValue = value;
 
 			if (!shouldReplace) {
 				// Se não for substituição, soma com o valor existente
-				const currentCellValue = await this.sheetsService.readCell(cellRange);
 				const currentValue = this.parseValue(currentCellValue);
 				finalValue = currentValue + value;
 			}
@@ -160,50 +339,225 @@ ${maxDay} dias.
 			const formattedValue = `R$ ${finalValue.toFixed(2).replace('.', ',')}`;
 
 			// Escreve na célula
-			await this.sheetsService.writeCell(cellRange, formattedValue);
+			const content = shouldReplace
+				? formattedValue
+				: await this.getAdditiveContent(request, currentCellValue, formattedValue);
+			await this.storage.writeValue(type, day, month, year, content);
+
+			// Guarda a alteração para o comando "desfazer"
+			this.pushUndo({
+				cellRange,
+				previousValue: currentCellValue,
+				writtenValue: formattedValue,
+				request,
+			});
+
+			return formattedValue;
+		});
 
-			// Monta mensagem de sucesso
-			const dateStr = DateHelper.formatDate(new Date(year, month - 1, day));
-			const typeLabel = {
-				entrada: '💰 Entrada',
-				saida: '💸 Saída',
-				diario: '🍽️ Diário',
-			}[type];
+		// Registra o lançamento individual (a grade guarda apenas o total do dia)
+		await this.recordLedgerEntry(request);
 
-			const typeEmoji = {
-				entrada: '💰',
-				saida: '💸',
-				diario: '🍽️',
-			}[type];
+		return { cellRange, formattedValue };
+	}
 
-			const action = shouldReplace ? 'substituído para' : 'adicionado';
-			const valueFormatted = `R$ ${value.toFixed(2).replace('.', ',')}`;
+	/**
+	 * Versão em lote do applyUpdate: uma leitura e uma escrita para todas as células
+	 * Pedidos na mesma célula são somados em ordem (cada um guarda seu passo para desfazer)
+	 */
+	private async applyUpdates(
+		requests: UpdateRequest[]
+	): Promise<{ cellRange: string; formattedValue: string }[]> {
+		if (requests.length === 0) {
+			return [];
+		}
 
-			return {
-				success: true,
-				message: shouldReplace
-					? `✅ Valor atualizado!
+		const cellKeys = Array.from(new Set(requests.map((request) => this.getCellKey(request))));
+		const cells = cellKeys.map((key) => requests.find((request) => this.getCellKey(request) === key)!);
+
+		const results = await this.withCellLocks(requests, async () => {
+			const currentValues = await this.storage.readValues(cells);
+			const contents: string[] = [];
+			const changes: CellChange[] = [];
+			const results: { cellRange: string; formattedValue: string }[] = [];
+
+			for (const [cellIndex, cell] of cells.entries()) {
+				const { type, day, month, year } = cell;
+				const cellRange = this.storage.describeLocation(type, day, month, year);
+				let currentCellValue = currentValues[cellIndex];
+				let currentContent: string | null | undefined; // Fórmula atual (lida só se precisar)
+
+				for (const request of requests.filter((request) => this.getCellKey(request) === cellKeys[cellIndex])) {
+					const finalValue = request.shouldReplace
+						? request.value
+						: this.parseValue(currentCellValue) + request.value;
+					const formattedValue = `R$ ${finalValue.toFixed(2).replace('.', ',')}`;
+
+					currentContent = request.shouldReplace
+						? formattedValue
+						: await this.getAdditiveContent(request, currentCellValue, formattedValue, currentContent);
+
+					changes.push({
+						cellRange,
+						previousValue: currentCellValue,
+						writtenValue: formattedValue,
+						request,
+					});
+					results[requests.indexOf(request)] = { cellRange, formattedValue };
+					currentCellValue = formattedValue;
+				}
+
+				contents.push(currentContent!);
+			}
 
-${typeEmoji} ${type.charAt(0).toUpperCase() + type.slice(1)}
-   ${formattedValue}
+			await this.storage.writeValues(cells.map((cell, index) => ({ ...cell, value: contents[index] })));
 
-📅 Data: ${dateStr}`
-					: `✅ Valor adicionado!
+			// Guarda na ordem das mensagens, para o "desfazer" voltar linha por linha
+			changes
+				.sort((a, b) => requests.indexOf(a.request) - requests.indexOf(b.request))
+				.forEach((change) => this.pushUndo(change));
 
-${typeEmoji} ${type.charAt(0).toUpperCase() + type.slice(1)}
-   + ${valueFormatted}
+			return results;
+		});
 
-📅 Data: ${dateStr}
-💵 Total: ${formattedValue}`,
-				details: {
-					type: typeLabel,
-					value: formattedValue,
-					date: dateStr,
-					column: cellRange,
-				},
-			};
-		} catch (error) {
-			console.error('Erro ao atualizar planilha:', error);
+		await this.recordLedgerEntries(requests);
+
+		return results;
+	}
+
+	/**
+	 * Executa a tarefa com a célula do pedido travada (uma escrita por vez em cada célula)
+	 */
+	private withCellLock<T>(
+		request: Pick<UpdateRequest, 'type' | 'day' | 'month' | 'year'>,
+		task: () => Promise<T>
+	): Promise<T> {
+		return SheetUpdater.cellLocks.run(this.getCellKey(request), task);
+	}
+
+	/**
+	 * Trava várias células (sempre na mesma ordem, para dois lotes não se esperarem)
+	 */
+	private withCellLocks<T>(
+		requests: Pick<UpdateRequest, 'type' | 'day' | 'month' | 'year'>[],
+		task: () => Promise<T>
+	): Promise<T> {
+		const keys = Array.from(new Set(requests.map((request) => this.getCellKey(request)))).sort();
+		return keys.reduceRight<() => Promise<T>>(
+			(next, key) => () => SheetUpdater.cellLocks.run(key, next),
+			task
+		)();
+	}
+
+	private getCellKey(request: Pick<UpdateRequest, 'type' | 'day' | 'month' | 'year'>): string {
+		const { type, day, month, year } = request;
+		return `${this.lockScope}|${type}|${year}-${month}-${day}`;
+	}
+
+	/**
+	 * Conteúdo da célula ao somar um valor
+	 * Com SHEETS_FORMULA_WRITES=true (só no Google Sheets), soma como fórmula,
+	 * mantendo cada parcela visível na célula (ex: "=20+20"); senão, o total
+	 * já calculado (ex: "R$ 40,00")
+	 *
+	 * A fórmula é montada a partir do conteúdo lido, então não protege contra
+	 * outra instância do bot gravando na mesma célula (a trava é só deste processo).
+	 * Os números usam vírgula decimal: a planilha precisa estar em português (Brasil).
+	 *
+	 * @param knownContent conteúdo atual, se já conhecido (em lote); senão é lido da planilha
+	 */
+	private async getAdditiveContent(
+		request: UpdateRequest,
+		currentCellValue: string | null,
+		formattedValue: string,
+		knownContent?: string | null
+	): Promise<string> {
+		if (!this.formulaWrites || !(this.storage instanceof GoogleSheetsStorage) || !currentCellValue) {
+			return formattedValue;
+		}
+
+		const { type, day, month, year, value } = request;
+		const currentContent =
+			knownContent !== undefined ? knownContent : await this.storage.readFormula(type, day, month, year);
+		const base = currentContent?.startsWith('=')
+			? currentContent.slice(1)
+			: this.formatFormulaNumber(this.parseValue(currentCellValue));
+
+		return `=${base}+${this.formatFormulaNumber(value)}`;
+	}
+
+	/**
+	 * Número para fórmula no formato brasileiro (ex: 87.1 → "87,10", 20 → "20")
+	 */
+	private formatFormulaNumber(value: number): string {
+		return value.toFixed(2).replace('.', ',').replace(/,00$/, '');
+	}
+
+	/**
+	 * Grava um valor da fila (a aba do ano precisa existir, senão fica para a próxima tentativa)
+	 */
+	private async applyQueuedUpdate(request: UpdateRequest): Promise<void> {
+		if (!(await this.storage.ensureYear(request.year))) {
+			throw new Error(`Aba ${request.year} não encontrada`);
+		}
+
+		await this.applyUpdate(request);
+	}
+
+	/**
+	 * Tenta esvaziar a fila antes de uma nova escrita
+	 * Retorna true se não sobrou nada pendente
+	 */
+	private async drainQueue(): Promise<boolean> {
+		if (this.writeQueue.size === 0) {
+			return true;
+		}
+
+		await this.writeQueue.flush();
+		return this.writeQueue.size === 0;
+	}
+
+	/**
+	 * Erro que não passa com o tempo (sem acesso, planilha inválida): avisa na hora
+	 */
+	private getWriteErrorResponse(): BotResponse {
+		return {
+			success: false,
+			message: `❌ Erro ao salvar!
+
+A planilha recusou o valor.
+Nada foi registrado.
+
+💡 Verifique se a planilha
+   existe e foi compartilhada
+   com a conta de serviço.`,
+		};
+	}
+
+	/**
+	 * Planilha fora do ar para um pedido que não vai para a fila
+	 */
+	private getUnavailableResponse(): BotResponse {
+		return {
+			success: false,
+			message: `⚠️ Planilha indisponível!
+
+Não consegui registrar o
+valor agora.
+
+💡 Tente novamente em alguns
+   instantes.`,
+		};
+	}
+
+	/**
+	 * Guarda o valor na fila para gravar quando a planilha voltar
+	 */
+	private queueUpdate(request: UpdateRequest, error?: unknown): BotResponse {
+		try {
+			this.writeQueue.enqueue(request, error);
+		} catch (queueError) {
+			console.error('Erro ao guardar valor na fila:', queueError);
 			return {
 				success: false,
 				message: `⚠️ Erro ao salvar!
@@ -215,47 +569,407 @@ valor na planilha.
    instantes.`,
 			};
 		}
+
+		const { type, value, day, month, year, shouldReplace = false } = request;
+		const typeEmoji = { entrada: '💰', saida: '💸', diario: '🍽️' }[type];
+		const dateStr = DateHelper.formatDate(new Date(year, month - 1, day));
+		const valueFormatted = `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+		return {
+			success: true,
+			queued: true,
+			message: `⏳ Valor registrado, será sincronizado!
+
+${typeEmoji} ${type.charAt(0).toUpperCase() + type.slice(1)}
+   ${shouldReplace ? valueFormatted : `+ ${valueFormatted}`}
+${this.formatExpressionLine(request.expression)}${this.formatDescriptionLine(request.description, request.category)}
+📅 Data: ${dateStr}
+
+A planilha não respondeu agora.
+O valor fica guardado e será
+gravado assim que ela voltar.
+
+💡 "pendentes" para ver a fila`,
+		};
 	}
 
 	/**
-	 * Lê os dados de um dia específico da planilha
-	 * OTIMIZADO: Usa batch read para reduzir requisições
+	 * Tenta gravar agora os valores da fila (em ordem)
+	 * Retorna quantos foram gravados
 	 */
-	async getDayData(day: number, month: number, year: number): Promise<DayData | null> {
+	async syncPending(): Promise<number> {
+		return this.writeQueue.flush();
+	}
+
+	/**
+	 * Lista os valores que aguardam sincronização com a planilha
+	 */
+	getPendingReport(): string {
+		const writes = this.writeQueue.list();
+
+		if (writes.length === 0) {
+			return `✅ Nenhum valor pendente
+
+Tudo o que foi registrado já
+está na planilha.`;
+		}
+
+		const typeEmoji = { entrada: '💰', saida: '💸', diario: '🍽️' };
+		const lines = writes.map(({ request, attempts, lastError }, index) => {
+			const dateStr = DateHelper.formatDate(new Date(request.year, request.month - 1, request.day));
+			const action = request.shouldReplace ? '= ' : '+ ';
+			const description = request.description ? ` — ${request.description}` : '';
+			const status = attempts > 0 ? `\n   ⚠️ ${attempts} tentativa(s): ${lastError || 'erro'}` : '';
+
+			return `${index + 1}. ${typeEmoji[request.type]} ${action}${this.formatCurrency(request.value)} em ${dateStr}${description}${status}`;
+		});
+
+		const nextAttempt = this.writeQueue.getNextAttempt();
+		const nextLine = nextAttempt
+			? `\n\n🔄 Próxima tentativa: ${nextAttempt.toLocaleTimeString('pt-BR', {
+					timeZone: 'America/Sao_Paulo',
+					hour: '2-digit',
+					minute: '2-digit',
+				})}`
+			: '';
+
+		return `
+━━━━ ⏳ PENDENTES ━━━━
+
+${lines.join('\n\n')}${nextLine}
+
+Os valores serão gravados na
+ordem em que foram enviados.
+    `.trim();
+	}
+
+	/**
+	 * Linha com a conta que gerou o valor (ex: "🧮 12 + 8,50 + 30"; vazia se não houver)
+	 */
+	private formatExpressionLine(expression?: string): string {
+		return expression ? `   🧮 ${expression}\n` : '';
+	}
+
+	/**
+	 * Linha com descrição/categoria para a confirmação (vazia se não houver)
+	 */
+	private formatDescriptionLine(description?: string, category?: string): string {
+		if (!description) return '';
+
+		const categoryLabel = category
+			? ` (${category.charAt(0).toUpperCase() + category.slice(1)})`
+			: '';
+
+		return `   📝 ${description}${categoryLabel}\n`;
+	}
+
+	/**
+	 * Histórico de desfazer de todas as planilhas (data/undo-history.json),
+	 * para o "desfazer" continuar funcionando depois de reiniciar o bot
+	 */
+	private static getUndoStore(): JsonStore<Record<string, CellChange[]>> {
+		if (!this.undoStore) {
+			this.undoStore = new JsonStore<Record<string, CellChange[]>>('undo-history.json', {});
+		}
+		return this.undoStore;
+	}
+
+	private getUndoKey(chatId: string): string {
+		return `${this.lockScope}|${chatId}`;
+	}
+
+	/**
+	 * Alterações que o chat ainda pode desfazer, da mais antiga para a mais nova
+	 */
+	private getUndoHistory(chatId: string): CellChange[] {
+		return SheetUpdater.getUndoStore().read()[this.getUndoKey(chatId)] || [];
+	}
+
+	/**
+	 * Adiciona uma alteração ao histórico de desfazer do chat
+	 */
+	private pushUndo(change: CellChange): void {
+		const key = this.getUndoKey(change.request.chatId || 'default');
+
+		SheetUpdater.getUndoStore().update((data) => {
+			const history = data[key] || [];
+
+			history.push(change);
+			if (history.length > this.maxUndoSteps) {
+				history.shift();
+			}
+
+			data[key] = history;
+		});
+	}
+
+	/**
+	 * Tira uma alteração do histórico (depois de desfeita ou recusada)
+	 */
+	private removeUndo(chatId: string, change: CellChange): void {
+		const key = this.getUndoKey(chatId);
+
+		SheetUpdater.getUndoStore().update((data) => {
+			data[key] = (data[key] || []).filter((item) => item !== change);
+		});
+	}
+
+	/**
+	 * Desfaz as últimas escritas feitas a partir de um chat
+	 *
+	 * Se a célula não foi alterada depois, restaura o conteúdo anterior.
+	 * Se outra pessoa somou um valor depois, subtrai apenas o valor desfeito.
+	 * Uma substituição só é desfeita se a célula não mudou desde então.
+	 */
+	async undoLast(chatId: string = 'default', steps: number = 1): Promise<string> {
+		if (steps < 1) {
+			return `⚠️ Quantidade inválida!
+
+Informe quantos registros
+desfazer (1 ou mais).
+
+💡 Ex: desfazer 3`;
+		}
+
+		const lines: string[] = [];
+		let undone = 0;
+		let blocked = false; // Parou em uma alteração que não dá mais para desfazer
+
+		// Valores ainda na fila são os mais recentes: saem da fila sem tocar na planilha
+		await this.writeQueue.waitIdle();
+		while (undone < steps) {
+			const removed = this.writeQueue.removeLast(chatId);
+			if (!removed) break;
+
+			lines.push(this.describeRemovedPending(removed.request));
+			undone++;
+		}
+
+		if (undone === 0 && this.getUndoHistory(chatId).length === 0) {
+			return `ℹ️ Nada para desfazer
+
+Nenhum valor foi registrado
+por este chat recentemente.`;
+		}
+
 		try {
-			const config = this.getSheetConfig(month, year);
-			const rowNumber = this.getRowNumber(day, config);
+			while (undone < steps) {
+				const history = this.getUndoHistory(chatId);
+				const change = history[history.length - 1];
+				if (!change) break;
+
+				const { message, reverted } = await this.revertChange(change);
+				this.removeUndo(chatId, change);
+				lines.push(message);
+
+				if (!reverted) {
+					blocked = true;
+					break;
+				}
+				undone++;
+			}
+		} catch (error) {
+			console.error('Erro ao desfazer alteração:', error);
 
-			// Lê as 4 colunas em uma única requisição usando range (C, D, E, F)
-			const entradaCol = this.getColumnLetter('entrada', config.columnOffset);
-			const saldoCol = this.columnToLetter(6 + config.columnOffset); // F = offset + 6
-			const range = `${entradaCol}${rowNumber}:${saldoCol}${rowNumber}`;
+			if (undone === 0) {
+				return `⚠️ Erro ao desfazer!
 
-			const values = await this.sheetsService.readRange(range);
+Não consegui restaurar o
+valor na planilha.
 
-			if (!values || values.length === 0) {
-				return {
+💡 Tente novamente em alguns
+   instantes.`;
+			}
+
+			lines.push('⚠️ Parei antes do fim: erro ao acessar a planilha.');
+		}
+
+		if (undone === 0) {
+			return `⚠️ Nada foi desfeito\n\n${lines.join('\n\n')}`;
+		}
+
+		const skipped = steps - undone;
+
+		return `
+↩️ ${undone === 1 ? 'Registro desfeito!' : `${undone} registros desfeitos!`}
+
+${lines.join('\n\n')}${
+			skipped > 0 && !blocked && this.getUndoHistory(chatId).length === 0
+				? `\n\nℹ️ Não havia mais ${skipped} registro(s) para desfazer.`
+				: ''
+		}
+    `.trim();
+	}
+
+	/**
+	 * Descrição de um valor removido da fila pelo "desfazer"
+	 */
+	private describeRemovedPending(request: UpdateRequest): string {
+		const typeName = request.type.charAt(0).toUpperCase() + request.type.slice(1);
+		const dateStr = DateHelper.formatDate(new Date(request.year, request.month - 1, request.day));
+
+		return `⏳ ${typeName} - ${dateStr}
+   ${request.shouldReplace ? 'Substituição' : `+ ${this.formatCurrency(request.value)}`} removida da fila
+   (ainda não estava na planilha)`;
+	}
+
+	/**
+	 * Reverte uma alteração na grade e retorna a descrição do que foi feito
+	 * reverted = false se a alteração não pôde ser desfeita (nada foi gravado)
+	 */
+	private async revertChange(change: CellChange): Promise<{ message: string; reverted: boolean }> {
+		const { request, previousValue, writtenValue } = change;
+		const { type, day, month, year } = request;
+
+		const typeEmoji = {
+			entrada: '💰',
+			saida: '💸',
+			diario: '🍽️',
+		}[request.type];
+		const typeName = request.type.charAt(0).toUpperCase() + request.type.slice(1);
+		const dateStr = DateHelper.formatDate(new Date(request.year, request.month - 1, request.day));
+
+		const result = await this.withCellLock(request, async () => {
+			const currentCellValue = await this.storage.readValue(type, day, month, year);
+			const changedSince =
+				Math.abs(this.parseValue(currentCellValue) - this.parseValue(writtenValue)) > 0.001;
+
+			if (request.shouldReplace) {
+				// Voltar ao valor antigo apagaria o que foi somado depois da substituição
+				if (changedSince) {
+					return null;
+				}
+
+				await this.storage.writeValue(type, day, month, year, previousValue ?? '');
+				return { currentCellValue, restoredValue: this.parseValue(previousValue) };
+			}
+
+			// Com fórmulas, tira só a parcela desfeita e mantém as demais na célula
+			const restoredValue = changedSince
+				? this.parseValue(currentCellValue) - request.value
+				: this.parseValue(previousValue);
+			const formula = await this.getContentWithoutTerm(request);
+
+			if (formula !== null) {
+				await this.storage.writeValue(type, day, month, year, formula);
+			} else if (!changedSince) {
+				// Restaura exatamente o conteúdo anterior
+				await this.storage.writeValue(type, day, month, year, previousValue ?? '');
+			} else {
+				// A célula recebeu outros valores depois: remove só o que foi somado
+				await this.storage.writeValue(
+					type,
 					day,
 					month,
 					year,
-					entrada: 0,
-					saida: 0,
-					diario: 0,
-					saldo: 0,
-				};
+					`R$ ${restoredValue.toFixed(2).replace('.', ',')}`
+				);
 			}
 
-			const [entrada, saida, diario, saldo] = values[0]; // 4 colunas: C, D, E, F
+			return { currentCellValue, restoredValue };
+		});
 
+		if (!result) {
 			return {
-				day,
-				month,
-				year,
-				entrada: this.parseValue(entrada || null),
-				saida: this.parseValue(saida || null),
-				diario: this.parseValue(diario || null),
-				saldo: this.parseValue(saldo || null),
+				message: `⚠️ ${typeName} - ${dateStr}
+   Substituição não desfeita: o valor
+   mudou depois dela.
+
+💡 Corrija com "sub", ex: sub ${request.type} 100`,
+				reverted: false,
 			};
+		}
+
+		const { currentCellValue, restoredValue } = result;
+
+		// Registra o estorno no livro de lançamentos
+		await this.recordLedgerEntry({
+			...request,
+			value: request.shouldReplace ? restoredValue : -request.value,
+			rawText: `desfazer: ${request.rawText || ''}`.trim(),
+		});
+
+		const before = this.parseValue(currentCellValue);
+
+		return {
+			message: `${typeEmoji} ${typeName} - ${dateStr}
+   ${request.shouldReplace ? 'Substituição' : `+ ${this.formatCurrency(request.value)}`} desfeita
+   ${this.formatCurrency(before)} → ${this.formatCurrency(restoredValue)}`,
+			reverted: true,
+		};
+	}
+
+	/**
+	 * Fórmula da célula sem a última parcela igual ao valor desfeito
+	 * (ex: "=20+12,50+7,50" desfazendo 12,50 → "=20+7,50")
+	 * null se a célula não for uma soma feita com SHEETS_FORMULA_WRITES ou não tiver a parcela
+	 */
+	private async getContentWithoutTerm(request: UpdateRequest): Promise<string | null> {
+		if (!this.formulaWrites || !(this.storage instanceof GoogleSheetsStorage)) {
+			return null;
+		}
+
+		const { type, day, month, year, value } = request;
+		const content = await this.storage.readFormula(type, day, month, year);
+		if (!content?.startsWith('=')) {
+			return null;
+		}
+
+		const terms = content.slice(1).split('+');
+		const index = terms.lastIndexOf(this.formatFormulaNumber(value));
+		if (index === -1) {
+			return null;
+		}
+
+		terms.splice(index, 1);
+		return terms.length > 0 ? `=${terms.join('+')}` : '';
+	}
+
+	/**
+	 * Registra o lançamento no livro de lançamentos
+	 * Falhas aqui não desfazem a escrita na grade, apenas são logadas
+	 */
+	private async recordLedgerEntry(request: UpdateRequest): Promise<void> {
+		await this.recordLedgerEntries([request]);
+	}
+
+	/**
+	 * Registra vários lançamentos de uma vez (mesmo tratamento de falhas)
+	 */
+	private async recordLedgerEntries(requests: UpdateRequest[]): Promise<void> {
+		const recordedAt = DateHelper.getBrasiliaTime();
+
+		try {
+			await this.storage.appendLedgerEntries(
+				requests.map((request) => ({
+					recordedAt,
+					chatId: request.chatId || '',
+					sender: request.sender || request.chatId || '',
+					type: request.type,
+					value: request.value,
+					day: request.day,
+					month: request.month,
+					year: request.year,
+					rawText: request.rawText || '',
+					shouldReplace: request.shouldReplace || false,
+					description: request.description || '',
+					category: request.category || '',
+				}))
+			);
+		} catch (error) {
+			console.error('Erro ao registrar lançamento:', error);
+		}
+	}
+
+	/**
+	 * Lê os dados de um dia específico da planilha
+	 * OTIMIZADO: vem da grade do mês, lida de uma vez e mantida em cache
+	 */
+	async getDayData(day: number, month: number, year: number): Promise<DayData | null> {
+		try {
+			// Lê entrada, saída, diário e saldo em uma única requisição
+			const [dayData] = await this.storage.readDays(month, year, day, day);
+			return dayData;
 		} catch (error) {
 			console.error('Erro ao ler dados do dia:', error);
 			return null;
@@ -263,30 +977,55 @@ valor na planilha.
 	}
 
 	/**
-	 * Converte valor da planilha (ex: "R$ 87,10") para número
+	 * Lê todos os dias de um mês (até hoje, no mês atual) em uma única requisição
 	 */
-	private parseValue(cellValue: string | null): number {
-		if (!cellValue || cellValue.trim() === '') return 0;
+	async getMonthDays(month: number, year: number): Promise<DayData[]> {
+		const today = DateHelper.getBrasiliaTime();
+		const isCurrentMonth = month === today.getMonth() + 1 && year === today.getFullYear();
+		const maxDay = isCurrentMonth ? today.getDate() : this.getDaysInMonth(month, year);
+
+		return this.storage.readDays(month, year, 1, maxDay);
+	}
+
+	/**
+	 * Lê os dias de start a end (inclusive), com uma leitura por mês envolvido
+	 * Meses que falharem na leitura ficam de fora
+	 */
+	private async getDaysBetween(start: Date, end: Date): Promise<DayData[]> {
+		const days: DayData[] = [];
+		const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+		const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+
+		while (cursor <= last) {
+			const month = cursor.getMonth() + 1;
+			const year = cursor.getFullYear();
+			const isLastMonth = month === last.getMonth() + 1 && year === last.getFullYear();
+			const lastDay = isLastMonth ? last.getDate() : this.getDaysInMonth(month, year);
+
+			try {
+				days.push(...(await this.storage.readDays(month, year, cursor.getDate(), lastDay)));
+			} catch (error) {
+				console.error(`Erro ao ler dias de ${month}/${year}:`, error);
+			}
 
-		// Remove "R$", espaços e converte vírgula para ponto
-		const cleaned = cellValue
-			.replace(/R\$\s*/g, '')
-			.replace(/\./g, '') // Remove separadores de milhar
-			.replace(/,/g, '.') // Converte decimal
-			.trim();
+			cursor.setFullYear(year, month, 1); // Primeiro dia do mês seguinte
+		}
 
-		const value = parseFloat(cleaned);
-		return isNaN(value) ? 0 : value;
+		return days;
+	}
+
+	/**
+	 * Converte valor da planilha (ex: "R$ 87,10") para número
+	 */
+	private parseValue(cellValue: string | null): number {
+		return CurrencyHelper.parse(cellValue);
 	}
 
 	/**
 	 * Formata valor para exibição (ex: 1234.56 → "R$ 1.234,56")
 	 */
 	private formatCurrency(value: number): string {
-		return value.toLocaleString('pt-BR', {
-			style: 'currency',
-			currency: 'BRL',
-		});
+		return CurrencyHelper.format(value);
 	}
 
 	/**
@@ -363,23 +1102,15 @@ ${saldoMsg}
 		let totalSaidas = 0;
 		let totalDiario = 0;
 
-		// Últimos 7 dias
-		for (let i = 6; i >= 0; i--) {
-			const date = new Date(today);
-			date.setDate(today.getDate() - i);
-
-			const dayData = await this.getDayData(
-				date.getDate(),
-				date.getMonth() + 1,
-				date.getFullYear()
-			);
+		// Últimos 7 dias (uma leitura por mês envolvido)
+		const start = new Date(today);
+		start.setDate(today.getDate() - 6);
 
-			if (dayData) {
-				days.push(dayData);
-				totalEntradas += dayData.entrada;
-				totalSaidas += dayData.saida;
-				totalDiario += dayData.diario;
-			}
+		for (const dayData of await this.getDaysBetween(start, today)) {
+			days.push(dayData);
+			totalEntradas += dayData.entrada;
+			totalSaidas += dayData.saida;
+			totalDiario += dayData.diario;
 		}
 
 		const saldoFinal = days.length > 0 ? days[days.length - 1].saldo : 0;
@@ -416,28 +1147,29 @@ ${saldoMsg}
 		const today = DateHelper.getBrasiliaTime();
 		const month = today.getMonth() + 1;
 		const year = today.getFullYear();
-		const config = this.getSheetConfig(month, year);
 
 		let totalEntradas = 0;
 		let totalSaidas = 0;
 		let totalDiario = 0;
 		let diasComDados = 0;
 
-		// Percorre todos os dias do mês até hoje
+		// Percorre todos os dias do mês até hoje (lidos de uma vez)
 		const currentDay = today.getDate();
-		for (let day = 1; day <= currentDay; day++) {
-			const dayData = await this.getDayData(day, month, year);
+		const monthDays = await this.getMonthDays(month, year).catch((error) => {
+			console.error('Erro ao ler dias do mês:', error);
+			return [] as DayData[];
+		});
 
-			if (dayData && (dayData.entrada > 0 || dayData.saida > 0 || dayData.diario > 0)) {
+		monthDays.forEach((dayData) => {
+			if (dayData.entrada > 0 || dayData.saida > 0 || dayData.diario > 0) {
 				totalEntradas += dayData.entrada;
 				totalSaidas += dayData.saida;
 				totalDiario += dayData.diario;
 				diasComDados++;
 			}
-		}
+		});
 
-		const lastDayData = await this.getDayData(currentDay, month, year);
-		const saldoAtual = lastDayData?.saldo || 0;
+		const saldoAtual = monthDays[currentDay - 1]?.saldo || 0;
 
 		const monthName = new Intl.DateTimeFormat('pt-BR', { month: 'long' }).format(today);
 
@@ -462,56 +1194,24 @@ ${saldoMsg}
 	}
 
 	/**
-	 * Lê os totais mensais da planilha (linha 40 e 43)
-	 * OTIMIZADO: Usa batch read para reduzir requisições
+	 * Lê os totais mensais (células de totais da planilha ou calculados no banco local)
 	 */
 	async getMonthTotals(month: number, year: number): Promise<MonthSummary | null> {
 		try {
-			const config = this.getSheetConfig(month, year);
-
-			// Colunas dos totais
-			const entradaCol = this.columnToLetter(2 + config.columnOffset);
-			const saidaCol = this.columnToLetter(3 + config.columnOffset);
-			const diarioCol = this.columnToLetter(4 + config.columnOffset);
-			const saidaTotalCol = this.columnToLetter(1 + config.columnOffset);
-			const performanceCol = this.columnToLetter(4 + config.columnOffset);
-
-			// Usa batch read para ler todas as 5 células de uma vez
-			const ranges = [
-				`${entradaCol}40`,
-				`${saidaCol}40`,
-				`${diarioCol}40`,
-				`${saidaTotalCol}43`,
-				`${performanceCol}43`,
-			];
-
-			const results = await this.sheetsService.batchRead(ranges);
-
-			// Conta dias com dados (lendo range completo de uma vez)
+			const totals = await this.storage.readTotals(month, year);
+
+			// Conta dias com dados (lendo o mês de uma vez)
 			let diasComDados = 0;
 			const today = DateHelper.getBrasiliaTime();
 			const isCurrentMonth = month === today.getMonth() + 1 && year === today.getFullYear();
-			const maxDay = isCurrentMonth ? today.getDate() : config.endRow - config.startRow + 1;
-
-			// Lê todos os dias de uma vez usando um range
-			const startRow = config.startRow;
-			const endRow = config.startRow + maxDay - 1;
-			const startCol = this.getColumnLetter('entrada', config.columnOffset);
-			const endCol = this.columnToLetter(5 + config.columnOffset);
-			const daysRange = `${startCol}${startRow}:${endCol}${endRow}`;
+			const maxDay = isCurrentMonth ? today.getDate() : this.getDaysInMonth(month, year);
 
 			try {
-				const daysData = await this.sheetsService.readRange(daysRange);
-
-				daysData.forEach((row) => {
-					if (row && row.length >= 3) {
-						const entrada = this.parseValue(row[0] || null);
-						const saida = this.parseValue(row[1] || null);
-						const diario = this.parseValue(row[2] || null);
+				const daysData = await this.storage.readDays(month, year, 1, maxDay);
 
-						if (entrada > 0 || saida > 0 || diario > 0) {
-							diasComDados++;
-						}
+				daysData.forEach(({ entrada, saida, diario }) => {
+					if (entrada > 0 || saida > 0 || diario > 0) {
+						diasComDados++;
 					}
 				});
 			} catch (error) {
@@ -519,11 +1219,9 @@ ${saldoMsg}
 				// Se falhar, mantém diasComDados = 0
 			}
 
-			const totalEntradas = this.parseValue(results.get(ranges[0]) || null);
-			const totalSaidas = this.parseValue(results.get(ranges[1]) || null);
-			const totalDiario = this.parseValue(results.get(ranges[2]) || null);
-			const totalSaidaTotal = this.parseValue(results.get(ranges[3]) || null);
-			const performanceValue = this.parseValue(results.get(ranges[4]) || null);
+			const totalEntradas = totals.entrada;
+			const totalSaidas = totals.saida;
+			const totalDiario = totals.diario;
 
 			const mediaDiaria =
 				diasComDados > 0 ? (totalEntradas + totalSaidas + totalDiario) / diasComDados : 0;
@@ -534,8 +1232,8 @@ ${saldoMsg}
 				totalEntradas,
 				totalSaidas,
 				totalDiario,
-				saidaTotal: totalSaidaTotal,
-				performance: performanceValue,
+				saidaTotal: totals.saidaTotal,
+				performance: totals.performance,
 				diasComDados,
 				mediaDiaria,
 			};
@@ -666,12 +1364,159 @@ Déficit de ${this.formatCurrency(Math.abs(summary.performance))}`
 	}
 
 	/**
-	 * Compara mês atual com mês anterior
+	 * Remove lançamentos que foram estornados pelo "desfazer"
+	 * (cada estorno negativo cancela um lançamento igual e positivo)
+	 */
+	private removeUndoneEntries(entries: LedgerEntry[]): LedgerEntry[] {
+		const result = entries.filter((entry) => entry.value > 0);
+
+		entries
+			.filter((entry) => entry.value < 0)
+			.forEach((reversal) => {
+				const index = result.findIndex(
+					(entry) =>
+						entry.type === reversal.type &&
+						entry.day === reversal.day &&
+						entry.description === reversal.description &&
+						Math.abs(entry.value + reversal.value) < 0.001
+				);
+				if (index >= 0) {
+					result.splice(index, 1);
+				}
+			});
+
+		return result;
+	}
+
+	/**
+	 * Agrupa os gastos (saídas + diário) do mês por categoria
+	 */
+	async getCategoryTotals(month: number, year: number): Promise<CategoryTotal[]> {
+		const entries = await this.storage.getLedgerEntries(month, year);
+		const expenses = this.removeUndoneEntries(
+			entries.filter((entry) => entry.type !== 'entrada' && !entry.shouldReplace)
+		);
+
+		const totals = new Map<string, CategoryTotal>();
+		expenses.forEach((entry) => {
+			const category = entry.category || 'sem categoria';
+			const current = totals.get(category) || { category, total: 0, count: 0, entries: [] };
+
+			current.total += entry.value;
+			current.count++;
+			current.entries.push(entry);
+			totals.set(category, current);
+		});
+
+		return [...totals.values()].sort((a, b) => b.total - a.total);
+	}
+
+	/**
+	 * Gera relatório de gastos por categoria (mês atual ou informado)
+	 */
+	async getCategoryReport(month?: number, year?: number, topN: number = 5): Promise<string> {
+		const today = DateHelper.getBrasiliaTime();
+		const targetMonth = month || today.getMonth() + 1;
+		const targetYear = year || today.getFullYear();
+
+		let summary: MonthSummary | null;
+		let categories: CategoryTotal[];
+
+		try {
+			[summary, categories] = await Promise.all([
+				this.getMonthTotals(targetMonth, targetYear),
+				this.getCategoryTotals(targetMonth, targetYear),
+			]);
+		} catch (error) {
+			console.error('Erro ao gerar relatório por categoria:', error);
+			summary = null;
+			categories = [];
+		}
+
+		if (!summary) {
+			return `⚠️ Dados indisponíveis
+
+Não consegui buscar os
+gastos deste mês.
+
+💡 Tente novamente mais tarde.`;
+		}
+
+		const monthName = new Intl.DateTimeFormat('pt-BR', { month: 'long' }).format(
+			new Date(targetYear, targetMonth - 1, 1)
+		);
+
+		if (categories.length === 0) {
+			return `ℹ️ Sem gastos detalhados
+
+Nenhum gasto com descrição
+em ${monthName}/${targetYear}.
+
+💡 Registre com descrição:
+   diario 45 mercado`;
+		}
+
+		const detailedTotal = categories.reduce((sum, category) => sum + category.total, 0);
+		const base = summary.saidaTotal > 0 ? summary.saidaTotal : detailedTotal;
+		const percentOf = (value: number) =>
+			base > 0 ? `${((value / base) * 100).toFixed(1).replace('.', ',')}%` : '-';
+
+		const categoryLines = categories
+			.map(
+				(category) => `🏷️ ${category.category.charAt(0).toUpperCase() + category.category.slice(1)}
+   ${this.formatCurrency(category.total)} (${percentOf(category.total)})
+   ${category.count} ${category.count === 1 ? 'lançamento' : 'lançamentos'}`
+			)
+			.join('\n\n');
+
+		// Valores da grade sem lançamento detalhado (ex: "sub" ou edição manual)
+		const undetailed = summary.saidaTotal - detailedTotal;
+		const undetailedLine =
+			undetailed > 0.005
+				? `\n\n❔ Sem detalhamento
+   ${this.formatCurrency(undetailed)} (${percentOf(undetailed)})`
+				: '';
+
+		const topItems = categories
+			.flatMap((category) => category.entries)
+			.sort((a, b) => b.value - a.value)
+			.slice(0, topN)
+			.map(
+				(entry, index) =>
+					`${index + 1}. ${this.formatCurrency(entry.value)}
+   ${entry.description || entry.type} (${entry.day.toString().padStart(2, '0')}/${entry.month
+						.toString()
+						.padStart(2, '0')})`
+			)
+			.join('\n');
+
+		return `
+━━ 🏷️ GASTOS POR CATEGORIA ━━
+
+━━━━━ ${monthName.toUpperCase()}/${targetYear} ━━━━━
+
+${categoryLines}${undetailedLine}
+
+━━━━━━━━━━━━━━━━━━
+
+🔻 Saída Total
+   ${this.formatCurrency(summary.saidaTotal)}
+   (Saídas + Diário)
+
+━━━━ 🔝 MAIORES GASTOS ━━━━
+
+${topItems}
+    `.trim();
+	}
+
+	/**
+	 * Compara um mês (padrão: atual) com o mês anterior
+	 * Em janeiro, compara com dezembro da aba do ano anterior
 	 */
-	async getComparisonReport(): Promise<string> {
+	async getComparisonReport(month?: number, year?: number): Promise<string> {
 		const today = DateHelper.getBrasiliaTime();
-		const currentMonth = today.getMonth() + 1;
-		const currentYear = today.getFullYear();
+		const currentMonth = month || today.getMonth() + 1;
+		const currentYear = year || today.getFullYear();
 
 		let previousMonth = currentMonth - 1;
 		let previousYear = currentYear;
@@ -712,7 +1557,9 @@ informações para comparação.
 		return `
 ━━━ 📊 COMPARAÇÃO MENSAL ━━━
 
-${currentMonthName.toUpperCase()} vs ${previousMonthName.toUpperCase()}
+${currentMonthName.toUpperCase()}${
+			previousYear !== currentYear ? `/${currentYear}` : ''
+		} vs ${previousMonthName.toUpperCase()}${previousYear !== currentYear ? `/${previousYear}` : ''}
 
 ━━━━━━ 💰 ENTRADAS ━━━━━━           
 
@@ -760,8 +1607,7 @@ ${diffPerformance >= 0 ? '✅ Performance melhorou! 🎉' : '⚠️ Performance
 		const currentDay = today.getDate();
 		const month = today.getMonth() + 1;
 		const year = today.getFullYear();
-		const config = this.getSheetConfig(month, year);
-		const daysInMonth = config.endRow - config.startRow + 1;
+		const daysInMonth = this.getDaysInMonth(month, year);
 		const daysRemaining = daysInMonth - currentDay;
 
 		const summary = await this.getMonthTotals(month, year);
@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { JsonStore } from '../utils/jsonStore';
+
+/**
+ * Origem da planilha de um chat
+ * - comando: definida pelo admin com "planilha <link>"
+ * - arquivo: definida em SPREADSHEETS_FILE
+ * - padrão: SHEET_ID
+ */
+export type SpreadsheetSource = 'comando' | 'arquivo' | 'padrão';
+
+/**
+ * Mapeamento chat → planilha, para várias famílias/grupos no mesmo bot
+ *
+ * Prioridade: comando do admin (data/spreadsheets.json) > SPREADSHEETS_FILE > SHEET_ID
+ */
+export class SpreadsheetRegistry {
+	private store = new JsonStore<Record<string, string>>('spreadsheets.json', {});
+	private fileMapping: Record<string, string>;
+
+	constructor() {
+		this.fileMapping = this.loadFile();
+	}
+
+	/**
+	 * Carrega o mapeamento do arquivo SPREADSHEETS_FILE
+	 * Formato: { "120363XXX@g.us": "ID_DA_PLANILHA", "5511999999999@s.whatsapp.net": "..." }
+	 */
+	private loadFile(): Record<string, string> {
+		const file = process.env.SPREADSHEETS_FILE;
+		if (!file) return {};
+
+		try {
+			return JSON.parse(readFileSync(resolve(file), 'utf-8'));
+		} catch (error) {
+			console.error(`⚠️  Erro ao carregar planilhas de ${file}, usando SHEET_ID:`, error);
+			return {};
+		}
+	}
+
+	/**
+	 * ID da planilha do chat (string vazia se nada estiver configurado)
+	 */
+	getSpreadsheetId(chatId: string): string {
+		return (
+			this.store.read()[chatId] || this.fileMapping[chatId] || process.env.SHEET_ID || ''
+		);
+	}
+
+	/**
+	 * De onde vem a planilha do chat
+	 */
+	getSource(chatId: string): SpreadsheetSource {
+		if (this.store.read()[chatId]) return 'comando';
+		if (this.fileMapping[chatId]) return 'arquivo';
+		return 'padrão';
+	}
+
+	/**
+	 * Associa uma planilha ao chat (sobrepõe o arquivo e o SHEET_ID)
+	 */
+	setSpreadsheet(chatId: string, spreadsheetId: string): void {
+		this.store.update((data) => {
+			data[chatId] = spreadsheetId;
+		});
+	}
+
+	/**
+	 * Remove a associação feita por comando (volta ao arquivo ou SHEET_ID)
+	 */
+	resetSpreadsheet(chatId: string): void {
+		this.store.update((data) => {
+			delete data[chatId];
+		});
+	}
+
+	/**
+	 * Extrai o ID de um link do Google Sheets ou de um ID colado direto
+	 * Ex: "https://docs.google.com/spreadsheets/d/ABC123/edit#gid=0" → "ABC123"
+	 */
+	static extractId(text: string): string | null {
+		const urlMatch = text.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+		if (urlMatch) return urlMatch[1];
+
+		const idMatch = text.trim().match(/^[a-zA-Z0-9-_]{20,}$/);
+		return idMatch ? idMatch[0] : null;
+	}
+
+	/**
+	 * Link da planilha para exibir ao usuário
+	 */
+	static getUrl(spreadsheetId: string): string {
+		return `https://docs.google.com/spreadsheets/d/${spreadsheetId}`;
+	}
+}
@@ -0,0 +1,220 @@
+import { PendingWrite, UpdateRequest } from '../types';
+import { JsonStore } from '../utils/jsonStore';
+
+/**
+ * Fila de escritas que falharam (planilha fora do ar, sem internet, limite da API...)
+ * Persistida em data/pending-writes.json, separada por planilha, para sobreviver
+ * a reinícios do bot
+ *
+ * Os valores são refeitos na ordem em que chegaram, com o mesmo pedido original
+ * (somar ou substituir). Se uma tentativa falha, a fila para ali e tenta de novo
+ * mais tarde, com espera crescente (30s, 1min, 2min... até 30min). Erros que não
+ * passam sozinhos (ex: sem acesso à planilha) descartam o valor.
+ */
+export class WriteQueue {
+	private static store: JsonStore<Record<string, PendingWrite[]>> | null = null;
+	private static readonly baseDelayMs = 30 * 1000;
+	private static readonly maxDelayMs = 30 * 60 * 1000;
+
+	private timer: NodeJS.Timeout | null = null;
+	private flushing: Promise<number> | null = null;
+	private nextAttemptAt: Date | null = null;
+
+	/**
+	 * @param key planilha da fila (ID da planilha ou "default")
+	 * @param apply grava um pedido na planilha (lança erro se falhar)
+	 * @param isTransient indica se o erro pode passar (senão o valor é descartado)
+	 */
+	constructor(
+		private readonly key: string,
+		private readonly apply: (request: UpdateRequest) => Promise<void>,
+		private readonly isTransient: (error: unknown) => boolean = () => true
+	) {
+		// Valores que ficaram na fila antes de reiniciar
+		if (this.size > 0) {
+			this.scheduleRetry(0);
+		}
+	}
+
+	/**
+	 * Arquivo compartilhado por todas as filas (um único cache em memória)
+	 */
+	private static getStore(): JsonStore<Record<string, PendingWrite[]>> {
+		if (!this.store) {
+			this.store = new JsonStore<Record<string, PendingWrite[]>>('pending-writes.json', {});
+		}
+		return this.store;
+	}
+
+	/**
+	 * Planilhas com valores aguardando sincronização
+	 */
+	static getPendingKeys(): string[] {
+		const data = this.getStore().read();
+		return Object.keys(data).filter((key) => data[key].length > 0);
+	}
+
+	/**
+	 * Valores aguardando, do mais antigo para o mais novo
+	 */
+	list(): PendingWrite[] {
+		return WriteQueue.getStore().read()[this.key] || [];
+	}
+
+	get size(): number {
+		return this.list().length;
+	}
+
+	/**
+	 * Próxima tentativa agendada (null se não houver)
+	 */
+	getNextAttempt(): Date | null {
+		return this.nextAttemptAt;
+	}
+
+	/**
+	 * Coloca um pedido no fim da fila e agenda a sincronização
+	 */
+	enqueue(request: UpdateRequest, error?: unknown): void {
+		WriteQueue.getStore().update((data) => {
+			data[this.key] = data[this.key] || [];
+			data[this.key].push({
+				request,
+				queuedAt: new Date().toISOString(),
+				attempts: 0,
+				lastError: error ? this.describeError(error) : undefined,
+			});
+		});
+
+		if (!this.timer && !this.flushing) {
+			this.scheduleRetry(this.getRetryDelay(1));
+		}
+	}
+
+	/**
+	 * Aguarda a sincronização em andamento (se houver)
+	 */
+	async waitIdle(): Promise<void> {
+		if (this.flushing) {
+			await this.flushing;
+		}
+	}
+
+	/**
+	 * Remove o pedido mais recente de um chat (para o "desfazer")
+	 * Use após waitIdle, para não remover um pedido que está sendo gravado
+	 */
+	removeLast(chatId: string): PendingWrite | null {
+		const writes = this.list();
+		const index = writes.map((write) => write.request.chatId || 'default').lastIndexOf(chatId);
+		if (index === -1) {
+			return null;
+		}
+
+		const [removed] = writes.splice(index, 1);
+		WriteQueue.getStore().update((data) => {
+			data[this.key] = writes;
+		});
+
+		if (writes.length === 0) {
+			this.cancelRetry();
+		}
+		return removed;
+	}
+
+	/**
+	 * Grava os pedidos da fila em ordem, até o primeiro erro
+	 * Retorna quantos foram gravados (chamadas simultâneas aguardam a mesma rodada)
+	 */
+	async flush(): Promise<number> {
+		if (!this.flushing) {
+			this.cancelRetry();
+			this.flushing = this.processQueue().finally(() => {
+				this.flushing = null;
+			});
+		}
+		return this.flushing;
+	}
+
+	private async processQueue(): Promise<number> {
+		let synced = 0;
+
+		// Relê a fila a cada volta: pedidos que chegam durante a sincronização entram no fim
+		while (this.size > 0) {
+			const [next] = this.list();
+
+			try {
+				await this.apply(next.request);
+			} catch (error) {
+				if (!this.isTransient(error)) {
+					console.error(
+						`❌ Fila de escritas (${this.key}): valor descartado, a planilha recusou a escrita:`,
+						error
+					);
+					this.remove(next);
+					continue;
+				}
+
+				WriteQueue.getStore().update(() => {
+					next.attempts++;
+					next.lastError = this.describeError(error);
+				});
+
+				const delay = this.getRetryDelay(next.attempts + 1);
+				console.error(
+					`⏳ Fila de escritas (${this.key}): falha na tentativa ${next.attempts}, nova tentativa em ${Math.round(delay / 1000)}s`
+				);
+				this.scheduleRetry(delay);
+				return synced;
+			}
+
+			this.remove(next);
+			synced++;
+		}
+
+		if (synced > 0) {
+			console.log(`✅ Fila de escritas (${this.key}): ${synced} valor(es) sincronizado(s)`);
+		}
+		return synced;
+	}
+
+	private remove(write: PendingWrite): void {
+		WriteQueue.getStore().update((data) => {
+			data[this.key] = (data[this.key] || []).filter((item) => item !== write);
+			if (data[this.key].length === 0) {
+				delete data[this.key];
+			}
+		});
+	}
+
+	/**
+	 * Espera antes da tentativa N: dobra a cada falha, até o máximo
+	 */
+	private getRetryDelay(attempt: number): number {
+		return Math.min(WriteQueue.baseDelayMs * 2 ** (attempt - 1), WriteQueue.maxDelayMs);
+	}
+
+	private scheduleRetry(delayMs: number): void {
+		this.cancelRetry();
+		this.nextAttemptAt = new Date(Date.now() + delayMs);
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			this.flush().catch((error) => console.error('Erro ao sincronizar fila de escritas:', error));
+		}, delayMs);
+
+		// Não impede o processo de encerrar
+		this.timer.unref();
+	}
+
+	private cancelRetry(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.nextAttemptAt = null;
+	}
+
+	private describeError(error: unknown): string {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
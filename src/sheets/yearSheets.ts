@@ -0,0 +1,127 @@
+import { SheetsClient } from './googleSheets';
+
+/**
+ * Abas anuais da planilha: cada ano tem a sua aba ("2025", "2026"...)
+ * com os 12 meses lado a lado
+ *
+ * Quando o ano ainda não tem aba, ela é criada duplicando:
+ * 1. a aba modelo (TEMPLATE_SHEET_NAME, padrão "Modelo"), ou
+ * 2. a aba do ano anterior mais recente, com os valores lançados apagados
+ *    (as fórmulas de saldo e totais são mantidas)
+ */
+export class YearSheets {
+	private readonly templateName: string;
+	private existing: Set<number> = new Set();
+	private listedAt = 0;
+	private readonly listTtl = 60 * 1000; // Anos ausentes são verificados de novo após 1 minuto
+	private pending: Map<number, Promise<boolean>> = new Map();
+
+	/**
+	 * @param getInputRanges intervalos com valores lançados de uma aba (limpos ao copiar um ano)
+	 */
+	constructor(
+		private sheetsService: SheetsClient,
+		private getInputRanges: (sheetName: string) => string[]
+	) {
+		this.templateName = process.env.TEMPLATE_SHEET_NAME || 'Modelo';
+	}
+
+	/**
+	 * Nome da aba modelo
+	 */
+	getTemplateName(): string {
+		return this.templateName;
+	}
+
+	/**
+	 * Nome da aba de um ano
+	 */
+	getSheetName(year: number): string {
+		return `${year}`;
+	}
+
+	/**
+	 * Qualifica um range com a aba do ano (ex: 2026, "H12" → "'2026'!H12")
+	 */
+	qualify(year: number, range: string): string {
+		return `'${this.getSheetName(year).replace(/'/g, "''")}'!${range}`;
+	}
+
+	/**
+	 * Verifica se a aba do ano existe (sem criar)
+	 */
+	async exists(year: number): Promise<boolean> {
+		if (this.existing.has(year)) return true;
+		if (Date.now() - this.listedAt < this.listTtl) return false;
+
+		const sheets = await this.sheetsService.listSheets();
+		this.listedAt = Date.now();
+		sheets.forEach((sheet) => {
+			const sheetYear = this.parseYear(sheet.title);
+			if (sheetYear) this.existing.add(sheetYear);
+		});
+
+		return this.existing.has(year);
+	}
+
+	/**
+	 * Garante que a aba do ano exista, criando a partir do modelo se necessário
+	 * Retorna false se não houver modelo nem ano anterior para copiar
+	 */
+	async ensure(year: number): Promise<boolean> {
+		if (this.existing.has(year)) return true;
+
+		// Evita criar a mesma aba duas vezes com mensagens simultâneas
+		let creation = this.pending.get(year);
+		if (!creation) {
+			creation = this.create(year).finally(() => this.pending.delete(year));
+			this.pending.set(year, creation);
+		}
+
+		return creation;
+	}
+
+	/**
+	 * Cria a aba do ano (se ainda não existir)
+	 */
+	private async create(year: number): Promise<boolean> {
+		this.listedAt = 0;
+		if (await this.exists(year)) return true;
+
+		const sheets = await this.sheetsService.listSheets();
+		const template = sheets.find((sheet) => sheet.title === this.templateName);
+
+		// Sem modelo, copia o ano anterior mais recente
+		const previous = sheets
+			.map((sheet) => ({ ...sheet, year: this.parseYear(sheet.title) }))
+			.filter((sheet) => sheet.year !== null && sheet.year < year)
+			.sort((a, b) => b.year! - a.year!)[0];
+
+		const source = template || previous;
+		if (!source) {
+			console.error(
+				`❌ Aba ${year} não existe e não há aba "${this.templateName}" nem ano anterior para copiar`
+			);
+			return false;
+		}
+
+		const sheetName = this.getSheetName(year);
+		const insertIndex = previous ? previous.index + 1 : sheets.length;
+		await this.sheetsService.duplicateSheet(source.sheetId, sheetName, insertIndex);
+
+		if (!template) {
+			await this.sheetsService.clearRanges(this.getInputRanges(sheetName));
+		}
+
+		this.existing.add(year);
+		console.log(`📄 Aba ${sheetName} criada a partir de "${source.title}"`);
+		return true;
+	}
+
+	/**
+	 * Ano representado pelo nome da aba (null se não for uma aba anual)
+	 */
+	private parseYear(title: string): number | null {
+		return /^\d{4}$/.test(title.trim()) ? parseInt(title.trim()) : null;
+	}
+}
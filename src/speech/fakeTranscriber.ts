@@ -0,0 +1,20 @@
+import { SpeechToText } from './speechToText';
+
+/**
+ * Transcrição falsa e determinística, para testes e desenvolvimento offline
+ * Retorna as respostas na ordem (repetindo a última) e guarda os áudios recebidos
+ */
+export class FakeTranscriber implements SpeechToText {
+	readonly name = 'fake';
+	readonly received: { audio: Buffer; mimeType: string }[] = [];
+	private responses: string[];
+
+	constructor(responses: string | string[]) {
+		this.responses = Array.isArray(responses) ? [...responses] : [responses];
+	}
+
+	async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+		this.received.push({ audio, mimeType });
+		return this.responses.length > 1 ? this.responses.shift()! : this.responses[0] || '';
+	}
+}
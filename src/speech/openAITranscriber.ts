@@ -0,0 +1,45 @@
+import { SpeechToText } from './speechToText';
+
+/**
+ * Transcrição via API compatível com OpenAI (Whisper na nuvem, Groq, etc.)
+ */
+export class OpenAITranscriber implements SpeechToText {
+	readonly name = 'openai';
+	private readonly apiKey: string;
+	private readonly baseUrl: string;
+	private readonly model: string;
+
+	constructor() {
+		this.apiKey = process.env.STT_API_KEY || process.env.OPENAI_API_KEY || '';
+		this.baseUrl = (process.env.STT_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+		this.model = process.env.STT_MODEL || 'whisper-1';
+
+		if (!this.apiKey) {
+			console.log('⚠️  STT_API_KEY não configurada - a transcrição de áudios vai falhar');
+		}
+	}
+
+	async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+		// WhatsApp envia "audio/ogg; codecs=opus"
+		const extension = mimeType.split('/')[1]?.split(';')[0].trim() || 'ogg';
+
+		const form = new FormData();
+		form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), `audio.${extension}`);
+		form.append('model', this.model);
+		form.append('language', 'pt');
+		form.append('response_format', 'json');
+
+		const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${this.apiKey}` },
+			body: form,
+		});
+
+		if (!response.ok) {
+			throw new Error(`Erro na transcrição (${response.status}): ${await response.text()}`);
+		}
+
+		const data = (await response.json()) as { text?: string };
+		return (data.text || '').trim();
+	}
+}
@@ -0,0 +1,44 @@
+import * as dotenv from 'dotenv';
+import { OpenAITranscriber } from './openAITranscriber';
+import { WhisperCppTranscriber } from './whisperCppTranscriber';
+import { FakeTranscriber } from './fakeTranscriber';
+
+dotenv.config();
+
+/**
+ * Interface para serviços de transcrição de áudio (speech-to-text)
+ */
+export interface SpeechToText {
+	readonly name: string;
+
+	/**
+	 * Transcreve o áudio e retorna o texto (string vazia se não houver fala)
+	 */
+	transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+/**
+ * Cria o serviço de transcrição configurado em STT_PROVIDER
+ * - openai: API compatível com OpenAI (/audio/transcriptions)
+ * - whisper-cpp: whisper.cpp local, sem internet
+ * - fake: texto fixo (STT_FAKE_TEXT), para testes
+ * Retorna null se nenhum estiver configurado (áudios são ignorados)
+ */
+export function createSpeechToText(): SpeechToText | null {
+	const provider = (process.env.STT_PROVIDER || '').toLowerCase().trim();
+
+	switch (provider) {
+		case '':
+		case 'none':
+			return null;
+		case 'openai':
+			return new OpenAITranscriber();
+		case 'whisper-cpp':
+			return new WhisperCppTranscriber();
+		case 'fake':
+			return new FakeTranscriber(process.env.STT_FAKE_TEXT || '');
+		default:
+			console.log(`⚠️  STT_PROVIDER desconhecido: "${provider}". Áudios serão ignorados.`);
+			return null;
+	}
+}
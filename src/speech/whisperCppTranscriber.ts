@@ -0,0 +1,49 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { SpeechToText } from './speechToText';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Transcrição local e offline com whisper.cpp
+ * Converte o áudio do WhatsApp (ogg/opus) para WAV 16 kHz com ffmpeg antes
+ */
+export class WhisperCppTranscriber implements SpeechToText {
+	readonly name = 'whisper-cpp';
+	private readonly binary: string;
+	private readonly model: string;
+	private readonly ffmpeg: string;
+
+	constructor() {
+		this.binary = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+		this.model = process.env.WHISPER_CPP_MODEL || 'models/ggml-base.bin';
+		this.ffmpeg = process.env.FFMPEG_BIN || 'ffmpeg';
+	}
+
+	async transcribe(audio: Buffer, _mimeType: string): Promise<string> {
+		const dir = await mkdtemp(join(tmpdir(), 'finance-bot-audio-'));
+		const input = join(dir, 'input');
+		const wav = join(dir, 'audio.wav');
+		const output = join(dir, 'transcript');
+
+		try {
+			await writeFile(input, audio);
+			await execFileAsync(this.ffmpeg, ['-y', '-i', input, '-ar', '16000', '-ac', '1', wav], {
+				timeout: 60000,
+			});
+			await execFileAsync(
+				this.binary,
+				['-m', this.model, '-f', wav, '-l', 'pt', '-nt', '-otxt', '-of', output],
+				{ timeout: 120000 }
+			);
+
+			const text = await readFile(`${output}.txt`, 'utf-8');
+			return text.replace(/\s+/g, ' ').trim();
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	}
+}
@@ -0,0 +1,148 @@
+import * as dotenv from 'dotenv';
+import { DayData, LedgerEntry, MonthGridTotals, UpdateRequest } from '../types';
+import { GoogleSheetsStorage } from './googleSheetsStorage';
+import { SqliteStorage } from './sqliteStorage';
+
+dotenv.config();
+
+export type EntryType = UpdateRequest['type'];
+
+/**
+ * Posição de um valor na grade (tipo e dia)
+ */
+export interface CellPosition {
+	type: EntryType;
+	day: number;
+	month: number;
+	year: number;
+}
+
+/**
+ * Interface para onde os valores são guardados (grade diária + livro de lançamentos)
+ *
+ * Os valores do dia são lidos e escritos como conteúdo de célula ("R$ 87,10"),
+ * para que somar e desfazer funcionem igual em qualquer implementação.
+ */
+export interface FinanceStorage {
+	readonly name: string;
+
+	/**
+	 * Nome da planilha/banco (também serve para validar o acesso)
+	 */
+	getTitle(): Promise<string>;
+
+	/**
+	 * Garante que o ano possa receber valores (ex: cria a aba do ano)
+	 * Retorna false se não for possível
+	 */
+	ensureYear(year: number): Promise<boolean>;
+
+	/**
+	 * Conteúdo atual de um tipo em um dia (null se vazio)
+	 */
+	readValue(type: EntryType, day: number, month: number, year: number): Promise<string | null>;
+
+	/**
+	 * Grava o conteúdo de um tipo em um dia (string vazia apaga)
+	 */
+	writeValue(type: EntryType, day: number, month: number, year: number, value: string): Promise<void>;
+
+	/**
+	 * Conteúdo de várias posições de uma vez (mesma ordem de cells)
+	 */
+	readValues(cells: CellPosition[]): Promise<(string | null)[]>;
+
+	/**
+	 * Grava várias posições de uma vez (string vazia apaga)
+	 */
+	writeValues(cells: (CellPosition & { value: string })[]): Promise<void>;
+
+	/**
+	 * Valores e saldo acumulado dos dias firstDay..lastDay do mês
+	 */
+	readDays(month: number, year: number, firstDay: number, lastDay: number): Promise<DayData[]>;
+
+	/**
+	 * Totais do mês (zeros se o mês não tiver valores)
+	 */
+	readTotals(month: number, year: number): Promise<MonthGridTotals>;
+
+	/**
+	 * Adiciona lançamentos ao livro de lançamentos (de uma vez, na ordem)
+	 */
+	appendLedgerEntries(entries: LedgerEntry[]): Promise<void>;
+
+	/**
+	 * Lançamentos de um mês (pela data do lançamento)
+	 */
+	getLedgerEntries(month: number, year: number): Promise<LedgerEntry[]>;
+
+	/**
+	 * Posição de um valor para mostrar ao usuário (ex: "'2026'!H12")
+	 */
+	describeLocation(type: EntryType, day: number, month: number, year: number): string;
+}
+
+/**
+ * Indica se vale tentar de novo: sem conexão, limite de uso (429), erro no
+ * servidor (5xx) ou banco ocupado. Sem acesso (403), planilha inexistente (404)
+ * ou intervalo inválido (400) continuam falhando, então não entram na fila.
+ */
+export function isTransientStorageError(error: unknown): boolean {
+	if (!error || typeof error !== 'object') {
+		return false;
+	}
+
+	const { status, code, name, response } = error as {
+		status?: unknown;
+		code?: unknown;
+		name?: unknown;
+		response?: { status?: unknown };
+	};
+
+	const httpStatus = [status, response?.status, code]
+		.map((value) => (typeof value === 'string' && /^\d{3}$/.test(value) ? parseInt(value) : value))
+		.find((value): value is number => typeof value === 'number');
+	if (httpStatus !== undefined) {
+		return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+	}
+
+	if (name === 'AbortError' || name === 'TimeoutError') {
+		return true;
+	}
+
+	return (
+		typeof code === 'string' &&
+		/^(ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|ENETUNREACH|EPIPE|SQLITE_BUSY|SQLITE_LOCKED)$/.test(
+			code
+		)
+	);
+}
+
+/**
+ * Armazenamento configurado em STORAGE_PROVIDER
+ */
+export function getStorageProvider(): string {
+	return (process.env.STORAGE_PROVIDER || 'sheets').toLowerCase().trim();
+}
+
+/**
+ * Cria o armazenamento configurado em STORAGE_PROVIDER
+ * - sheets (padrão): Google Sheets (SHEET_ID ou a planilha do chat)
+ * - sqlite: banco local (SQLITE_FILE), sem internet nem credenciais
+ *
+ * @param spreadsheetId planilha do chat (no SQLite, separa os dados de cada planilha)
+ */
+export function createFinanceStorage(spreadsheetId?: string): FinanceStorage {
+	const provider = getStorageProvider();
+
+	switch (provider) {
+		case 'sheets':
+		case 'google':
+			return new GoogleSheetsStorage(spreadsheetId);
+		case 'sqlite':
+			return new SqliteStorage(spreadsheetId);
+		default:
+			throw new Error(`STORAGE_PROVIDER desconhecido: "${provider}" (use sheets ou sqlite)`);
+	}
+}
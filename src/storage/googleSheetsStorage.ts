@@ -0,0 +1,313 @@
+import { GoogleSheetsService, SheetsClient } from '../sheets/googleSheets';
+import { TransactionLedger } from '../sheets/ledger';
+import { YearSheets } from '../sheets/yearSheets';
+import { SheetLayout } from '../sheets/sheetLayout';
+import { SheetTemplate } from '../sheets/sheetTemplate';
+import { GridCache } from '../sheets/gridCache';
+import { DayData, LedgerEntry, MonthGridTotals, SheetConfig } from '../types';
+import { CurrencyHelper } from '../utils/currencyHelper';
+import { CellPosition, EntryType, FinanceStorage } from './financeStorage';
+
+/**
+ * Grade de um mês já lida da planilha (todos os dias e os totais)
+ */
+interface MonthGrid {
+	days: DayData[];
+	totals: MonthGridTotals;
+}
+
+/**
+ * Armazenamento no Google Sheets: grade mensal em uma aba por ano
+ * (posições definidas pelo SheetLayout) e livro de lançamentos em outra aba
+ *
+ * Saldo e totais são calculados pelas fórmulas da planilha. A grade de cada mês
+ * (dias e totais) é lida em uma única requisição e fica em cache (GridCache).
+ */
+export class GoogleSheetsStorage implements FinanceStorage {
+	readonly name = 'sheets';
+	private ledger: TransactionLedger;
+	private yearSheets: YearSheets;
+	private layout: SheetLayout;
+	private gridCache: GridCache<MonthGrid> = new GridCache();
+
+	/**
+	 * @param spreadsheetId planilha usada (padrão: SHEET_ID)
+	 * @param sheetsService cliente da planilha (nos testes, FakeGoogleSheetsService)
+	 */
+	constructor(
+		spreadsheetId?: string,
+		private sheetsService: SheetsClient = new GoogleSheetsService(spreadsheetId)
+	) {
+		this.ledger = new TransactionLedger(this.sheetsService);
+		this.layout = SheetLayout.get();
+		this.yearSheets = new YearSheets(this.sheetsService, (sheetName) =>
+			this.getInputRanges(sheetName)
+		);
+	}
+
+	async getTitle(): Promise<string> {
+		return this.sheetsService.getTitle();
+	}
+
+	async ensureYear(year: number): Promise<boolean> {
+		return this.yearSheets.ensure(year);
+	}
+
+	/**
+	 * Gera a aba modelo com a grade dos 12 meses e a aba do ano a partir dela
+	 * created = false se a aba modelo já existia (nada é alterado)
+	 */
+	async createTemplate(
+		year: number
+	): Promise<{ created: boolean; templateName: string; yearSheetName: string | null }> {
+		const templateName = this.yearSheets.getTemplateName();
+		const created = await new SheetTemplate(this.sheetsService, this.layout).build(templateName);
+		if (!created) {
+			return { created, templateName, yearSheetName: null };
+		}
+
+		const yearReady = await this.yearSheets.ensure(year);
+		return {
+			created,
+			templateName,
+			yearSheetName: yearReady ? this.yearSheets.getSheetName(year) : null,
+		};
+	}
+
+	async readValue(
+		type: EntryType,
+		day: number,
+		month: number,
+		year: number
+	): Promise<string | null> {
+		return this.sheetsService.readCell(this.describeLocation(type, day, month, year));
+	}
+
+	/**
+	 * Conteúdo digitado na célula (fórmula sem calcular, ex: "=10+5")
+	 */
+	async readFormula(
+		type: EntryType,
+		day: number,
+		month: number,
+		year: number
+	): Promise<string | null> {
+		return this.sheetsService.readFormula(this.describeLocation(type, day, month, year));
+	}
+
+	async writeValue(
+		type: EntryType,
+		day: number,
+		month: number,
+		year: number,
+		value: string
+	): Promise<void> {
+		try {
+			await this.sheetsService.writeCell(this.describeLocation(type, day, month, year), value);
+		} finally {
+			// Saldo e totais do mês mudam com a escrita (mesmo se a resposta falhar, pode ter gravado)
+			this.gridCache.invalidate(month, year);
+		}
+	}
+
+	/**
+	 * Lê as células em uma única requisição (batch read)
+	 */
+	async readValues(cells: CellPosition[]): Promise<(string | null)[]> {
+		const ranges = cells.map(({ type, day, month, year }) => this.describeLocation(type, day, month, year));
+		const results = await this.sheetsService.batchRead(ranges);
+		return ranges.map((range) => results.get(range) ?? null);
+	}
+
+	/**
+	 * Grava as células em uma única requisição (batch write)
+	 */
+	async writeValues(cells: (CellPosition & { value: string })[]): Promise<void> {
+		try {
+			await this.sheetsService.batchWrite(
+				cells.map(({ type, day, month, year, value }) => ({
+					range: this.describeLocation(type, day, month, year),
+					values: [[value]],
+				}))
+			);
+		} finally {
+			cells.forEach(({ month, year }) => this.gridCache.invalidate(month, year));
+		}
+	}
+
+	/**
+	 * Dias do mês a partir da grade em cache (ano sem aba: dias sem lançamentos)
+	 */
+	async readDays(
+		month: number,
+		year: number,
+		firstDay: number,
+		lastDay: number
+	): Promise<DayData[]> {
+		const grid = await this.readMonth(month, year);
+
+		const days: DayData[] = [];
+		for (let day = firstDay; day <= lastDay; day++) {
+			const cached = grid?.days[day - 1];
+			days.push(cached ? { ...cached } : this.parseDayRow(undefined, day, month, year));
+		}
+
+		return days;
+	}
+
+	/**
+	 * Totais do mês a partir da grade em cache
+	 * Ano sem aba: mês sem lançamentos (ex: janeiro antes do primeiro registro)
+	 */
+	async readTotals(month: number, year: number): Promise<MonthGridTotals> {
+		const grid = await this.readMonth(month, year);
+		return grid
+			? { ...grid.totals }
+			: { entrada: 0, saida: 0, diario: 0, saidaTotal: 0, performance: 0 };
+	}
+
+	/**
+	 * Lê todos os dias e as 5 células de totais do mês em uma única requisição (batchGet)
+	 * Retorna null se o ano não tiver aba
+	 */
+	private async readMonth(month: number, year: number): Promise<MonthGrid | null> {
+		if (!(await this.yearSheets.exists(year))) {
+			return null;
+		}
+
+		return this.gridCache.get(month, year, async () => {
+			const config = this.getSheetConfig(month, year);
+			const daysInMonth = new Date(year, month, 0).getDate();
+			const roles = ['entrada', 'saida', 'diario', 'saidaTotal', 'performance'] as const;
+			const totalRanges = roles.map((role) =>
+				this.getRange(config, this.layout.getTotalCell(role, config.columnOffset))
+			);
+
+			const [rows, ...totalValues] = await this.sheetsService.batchReadRanges([
+				this.getDaysRange(config, 1, daysInMonth),
+				...totalRanges,
+			]);
+
+			const days: DayData[] = [];
+			for (let day = 1; day <= daysInMonth; day++) {
+				days.push(this.parseDayRow(rows[day - 1], day, month, year));
+			}
+
+			const totals = {} as MonthGridTotals;
+			roles.forEach((role, index) => {
+				const cell = totalValues[index][0]?.[0];
+				totals[role] = CurrencyHelper.parse(cell || null);
+			});
+
+			return { days, totals };
+		});
+	}
+
+	async appendLedgerEntries(entries: LedgerEntry[]): Promise<void> {
+		await this.ledger.record(entries);
+	}
+
+	async getLedgerEntries(month: number, year: number): Promise<LedgerEntry[]> {
+		return this.ledger.getEntries(month, year);
+	}
+
+	/**
+	 * Célula do valor com a aba do ano (ex: "'2026'!H12")
+	 */
+	describeLocation(type: EntryType, day: number, month: number, year: number): string {
+		const config = this.getSheetConfig(month, year);
+		const columnLetter = this.layout.getColumn(type, config.columnOffset);
+		return this.getRange(config, `${columnLetter}${this.getRowNumber(day, config)}`);
+	}
+
+	/**
+	 * Retorna a configuração da planilha para um determinado mês/ano
+	 *
+	 * Estrutura (uma aba por ano, ex: "2026"), no layout padrão (ver SheetLayout):
+	 * - JANEIRO: linhas 6-36, colunas B-F
+	 * - FEVEREIRO: linhas 6-34 (ano bissexto, 29 dias), colunas H-L (offset de 6)
+	 * - MARÇO: linhas 6-36, colunas N-R (offset de 12)
+	 * - ABRIL: linhas 6-35 (30 dias), colunas T-X (offset de 18)
+	 * - etc...
+	 */
+	private getSheetConfig(month: number, year: number): SheetConfig {
+		// Offset de colunas do mês (Janeiro = 0, depois a largura do bloco a cada mês)
+		const columnOffset = this.layout.getColumnOffset(month);
+
+		// Linhas do dia 1 ao último dia do mês
+		const daysInMonth = new Date(year, month, 0).getDate();
+		const startRow = this.layout.firstDayRow;
+		const endRow = this.layout.getRow(daysInMonth);
+
+		return {
+			month,
+			year,
+			sheetName: this.yearSheets.getSheetName(year),
+			startRow,
+			endRow,
+			columnOffset,
+		};
+	}
+
+	/**
+	 * Qualifica um range com a aba do ano da configuração (ex: "H12" → "'2026'!H12")
+	 */
+	private getRange(config: SheetConfig, range: string): string {
+		return this.yearSheets.qualify(config.year, range);
+	}
+
+	/**
+	 * Intervalos com valores lançados (entrada, saída e diário) de todos os meses
+	 * Usados para limpar a cópia do ano anterior ao criar a aba de um novo ano
+	 */
+	private getInputRanges(sheetName: string): string[] {
+		const ranges: string[] = [];
+		const quotedName = `'${sheetName.replace(/'/g, "''")}'`;
+		const { firstDayRow, lastDayRow } = this.layout;
+
+		for (let month = 1; month <= 12; month++) {
+			const columnOffset = this.layout.getColumnOffset(month);
+			(['entrada', 'saida', 'diario'] as const).forEach((type) => {
+				const column = this.layout.getColumn(type, columnOffset);
+				ranges.push(`${quotedName}!${column}${firstDayRow}:${column}${lastDayRow}`);
+			});
+		}
+
+		return ranges;
+	}
+
+	/**
+	 * Calcula a linha na planilha baseado no dia do mês
+	 */
+	private getRowNumber(day: number, config: SheetConfig): number {
+		return config.startRow + (day - 1);
+	}
+
+	/**
+	 * Intervalo com os valores (entrada a saldo) de um ou mais dias seguidos
+	 */
+	private getDaysRange(config: SheetConfig, firstDay: number, lastDay: number): string {
+		const { startCol, endCol } = this.layout.getValueSpan(config.columnOffset);
+		const firstRow = this.getRowNumber(firstDay, config);
+		const lastRow = this.getRowNumber(lastDay, config);
+		return this.getRange(config, `${startCol}${firstRow}:${endCol}${lastRow}`);
+	}
+
+	/**
+	 * Converte uma linha lida com getDaysRange nos valores do dia
+	 */
+	private parseDayRow(row: any[] | undefined, day: number, month: number, year: number): DayData {
+		const { index } = this.layout.getValueSpan(0);
+		const cells = row || [];
+
+		return {
+			day,
+			month,
+			year,
+			entrada: CurrencyHelper.parse(cells[index.entrada] || null),
+			saida: CurrencyHelper.parse(cells[index.saida] || null),
+			diario: CurrencyHelper.parse(cells[index.diario] || null),
+			saldo: CurrencyHelper.parse(cells[index.saldo] || null),
+		};
+	}
+}
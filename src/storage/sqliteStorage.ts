@@ -0,0 +1,285 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { DayData, LedgerEntry, MonthGridTotals } from '../types';
+import { CurrencyHelper } from '../utils/currencyHelper';
+import { DateHelper } from '../utils/dateHelper';
+import { CellPosition, EntryType, FinanceStorage } from './financeStorage';
+
+/**
+ * Linha da tabela ledger (nomes das colunas do banco)
+ */
+interface LedgerRow {
+	recorded_at: string;
+	chat_id: string;
+	sender: string;
+	type: LedgerEntry['type'];
+	value: number;
+	day: number;
+	month: number;
+	year: number;
+	raw_text: string;
+	should_replace: number;
+	description: string;
+	category: string;
+}
+
+/**
+ * Armazenamento local em SQLite (SQLITE_FILE, padrão: data/finance.db)
+ *
+ * Guarda os mesmos dados da planilha, mas calcula saldo e totais no próprio
+ * bot: o saldo é acumulado no mês (entradas - saídas - diário), como no modelo.
+ * Várias planilhas (uma por chat) ficam no mesmo arquivo, separadas pelo ID.
+ */
+export class SqliteStorage implements FinanceStorage {
+	readonly name = 'sqlite';
+	private static connections: Map<string, Database.Database> = new Map();
+	private db: Database.Database;
+	private readonly filePath: string;
+	private readonly book: string;
+
+	/**
+	 * @param spreadsheetId planilha do chat (separa os dados no banco)
+	 * @param filePath arquivo do banco (":memory:" para testes)
+	 */
+	constructor(spreadsheetId?: string, filePath?: string) {
+		this.book = spreadsheetId || 'default';
+		this.filePath = filePath || SqliteStorage.getDefaultFile();
+		this.db = SqliteStorage.open(this.filePath);
+	}
+
+	/**
+	 * Arquivo padrão: SQLITE_FILE ou finance.db na pasta de dados
+	 */
+	private static getDefaultFile(): string {
+		if (process.env.SQLITE_FILE) {
+			return resolve(process.env.SQLITE_FILE);
+		}
+
+		const dataDir = process.env.DATA_DIR
+			? resolve(process.env.DATA_DIR)
+			: resolve(__dirname, '../../data');
+		return resolve(dataDir, 'finance.db');
+	}
+
+	/**
+	 * Abre (uma vez por arquivo) e cria as tabelas se necessário
+	 */
+	private static open(filePath: string): Database.Database {
+		const existing = filePath !== ':memory:' ? this.connections.get(filePath) : undefined;
+		if (existing) {
+			return existing;
+		}
+
+		if (filePath !== ':memory:' && !existsSync(dirname(filePath))) {
+			mkdirSync(dirname(filePath), { recursive: true });
+		}
+
+		const db = new Database(filePath);
+		db.pragma('journal_mode = WAL');
+		db.exec(`
+			CREATE TABLE IF NOT EXISTS day_values (
+				book TEXT NOT NULL,
+				year INTEGER NOT NULL,
+				month INTEGER NOT NULL,
+				day INTEGER NOT NULL,
+				type TEXT NOT NULL,
+				value REAL NOT NULL,
+				PRIMARY KEY (book, year, month, day, type)
+			);
+
+			CREATE TABLE IF NOT EXISTS ledger (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				book TEXT NOT NULL,
+				recorded_at TEXT NOT NULL,
+				chat_id TEXT NOT NULL,
+				sender TEXT NOT NULL,
+				type TEXT NOT NULL,
+				value REAL NOT NULL,
+				day INTEGER NOT NULL,
+				month INTEGER NOT NULL,
+				year INTEGER NOT NULL,
+				raw_text TEXT NOT NULL,
+				should_replace INTEGER NOT NULL,
+				description TEXT NOT NULL,
+				category TEXT NOT NULL
+			);
+
+			CREATE INDEX IF NOT EXISTS ledger_month ON ledger (book, year, month);
+		`);
+
+		if (filePath !== ':memory:') {
+			this.connections.set(filePath, db);
+		}
+		return db;
+	}
+
+	async getTitle(): Promise<string> {
+		return `Banco local (${basename(this.filePath)})`;
+	}
+
+	/**
+	 * No banco local todo ano já está disponível
+	 */
+	async ensureYear(): Promise<boolean> {
+		return true;
+	}
+
+	async readValue(
+		type: EntryType,
+		day: number,
+		month: number,
+		year: number
+	): Promise<string | null> {
+		const row = this.db
+			.prepare(
+				'SELECT value FROM day_values WHERE book = ? AND year = ? AND month = ? AND day = ? AND type = ?'
+			)
+			.get(this.book, year, month, day, type) as { value: number } | undefined;
+
+		return row ? CurrencyHelper.toCell(row.value) : null;
+	}
+
+	async writeValue(
+		type: EntryType,
+		day: number,
+		month: number,
+		year: number,
+		value: string
+	): Promise<void> {
+		this.writeRow(type, day, month, year, value);
+	}
+
+	private writeRow(type: EntryType, day: number, month: number, year: number, value: string): void {
+		if (value.trim() === '') {
+			this.db
+				.prepare(
+					'DELETE FROM day_values WHERE book = ? AND year = ? AND month = ? AND day = ? AND type = ?'
+				)
+				.run(this.book, year, month, day, type);
+			return;
+		}
+
+		this.db
+			.prepare(
+				`INSERT INTO day_values (book, year, month, day, type, value) VALUES (?, ?, ?, ?, ?, ?)
+				ON CONFLICT (book, year, month, day, type) DO UPDATE SET value = excluded.value`
+			)
+			.run(this.book, year, month, day, type, CurrencyHelper.parse(value));
+	}
+
+	async readValues(cells: CellPosition[]): Promise<(string | null)[]> {
+		return Promise.all(
+			cells.map(({ type, day, month, year }) => this.readValue(type, day, month, year))
+		);
+	}
+
+	/**
+	 * Grava tudo em uma transação (ou nada, se algo falhar)
+	 */
+	async writeValues(cells: (CellPosition & { value: string })[]): Promise<void> {
+		const writeAll = this.db.transaction(() => {
+			cells.forEach(({ type, day, month, year, value }) => this.writeRow(type, day, month, year, value));
+		});
+		writeAll();
+	}
+
+	/**
+	 * Valores dos dias com o saldo acumulado desde o dia 1
+	 */
+	async readDays(
+		month: number,
+		year: number,
+		firstDay: number,
+		lastDay: number
+	): Promise<DayData[]> {
+		const rows = this.db
+			.prepare(
+				'SELECT day, type, value FROM day_values WHERE book = ? AND year = ? AND month = ? AND day <= ?'
+			)
+			.all(this.book, year, month, lastDay) as { day: number; type: EntryType; value: number }[];
+
+		const days: DayData[] = [];
+		let saldo = 0;
+
+		for (let day = 1; day <= lastDay; day++) {
+			const values = { entrada: 0, saida: 0, diario: 0 };
+			rows.filter((row) => row.day === day).forEach((row) => (values[row.type] = row.value));
+
+			saldo += values.entrada - values.saida - values.diario;
+			if (day >= firstDay) {
+				days.push({ day, month, year, ...values, saldo });
+			}
+		}
+
+		return days;
+	}
+
+	async readTotals(month: number, year: number): Promise<MonthGridTotals> {
+		const rows = this.db
+			.prepare(
+				'SELECT type, SUM(value) AS total FROM day_values WHERE book = ? AND year = ? AND month = ? GROUP BY type'
+			)
+			.all(this.book, year, month) as { type: EntryType; total: number }[];
+
+		const sums = { entrada: 0, saida: 0, diario: 0 };
+		rows.forEach((row) => (sums[row.type] = row.total));
+
+		const saidaTotal = sums.saida + sums.diario;
+		return { ...sums, saidaTotal, performance: sums.entrada - saidaTotal };
+	}
+
+	async appendLedgerEntries(entries: LedgerEntry[]): Promise<void> {
+		const insert = this.db.prepare(
+			`INSERT INTO ledger (book, recorded_at, chat_id, sender, type, value, day, month, year,
+				raw_text, should_replace, description, category)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		);
+
+		const insertAll = this.db.transaction(() => {
+			entries.forEach((entry) =>
+				insert.run(
+					this.book,
+					entry.recordedAt.toISOString(),
+					entry.chatId,
+					entry.sender,
+					entry.type,
+					entry.value,
+					entry.day,
+					entry.month,
+					entry.year,
+					entry.rawText,
+					entry.shouldReplace ? 1 : 0,
+					entry.description,
+					entry.category
+				)
+			);
+		});
+		insertAll();
+	}
+
+	async getLedgerEntries(month: number, year: number): Promise<LedgerEntry[]> {
+		const rows = this.db
+			.prepare('SELECT * FROM ledger WHERE book = ? AND year = ? AND month = ? ORDER BY id')
+			.all(this.book, year, month) as LedgerRow[];
+
+		return rows.map((row) => ({
+			recordedAt: new Date(row.recorded_at),
+			chatId: row.chat_id,
+			sender: row.sender,
+			type: row.type,
+			value: row.value,
+			day: row.day,
+			month: row.month,
+			year: row.year,
+			rawText: row.raw_text,
+			shouldReplace: row.should_replace === 1,
+			description: row.description,
+			category: row.category,
+		}));
+	}
+
+	describeLocation(type: EntryType, day: number, month: number, year: number): string {
+		return `${type} ${DateHelper.formatDate(new Date(year, month - 1, day))}`;
+	}
+}
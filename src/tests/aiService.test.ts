@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers';
+import { AIService } from '../ai/aiService';
+import { LLMChatRequest, LLMChatResult, LLMProvider } from '../ai/llmProvider';
+
+/**
+ * Modelo que ecoa as mensagens e segura o pedido de resumo até release()
+ */
+class SlowSummaryProvider implements LLMProvider {
+  readonly name = 'teste';
+  readonly model = 'teste';
+  readonly received: LLMChatRequest[] = [];
+  private pending: ((result: LLMChatResult) => void)[] = [];
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    // O resumo é o único pedido sem funções
+    if (request.tools.length === 0) {
+      return new Promise((resolve) => this.pending.push(resolve));
+    }
+
+    this.received.push(request);
+    const last = request.messages[request.messages.length - 1];
+    return { text: `eco: ${last.role === 'user' ? last.content : ''}`, toolCalls: [] };
+  }
+
+  get waiting(): number {
+    return this.pending.length;
+  }
+
+  release(summary: string): void {
+    this.pending.splice(0).forEach((resolve) => resolve({ text: summary, toolCalls: [] }));
+  }
+
+  lastRequest(): LLMChatRequest {
+    return this.received[this.received.length - 1];
+  }
+}
+
+async function talk(service: AIService, chatId: string, count: number, prefix = 'msg'): Promise<void> {
+  for (let i = 1; i <= count; i++) {
+    await service.generateResponse(`${prefix} ${i}`, chatId);
+  }
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('AIService (memória da conversa)', () => {
+  it('responde sem esperar o resumo e mantém as mensagens que chegam durante ele', async () => {
+    const provider = new SlowSummaryProvider();
+    const service = new AIService(null, provider);
+
+    await talk(service, 'chat-resumo', 6);
+    assert.equal(provider.waiting, 1);
+
+    await service.generateResponse('meu salário cai dia 5', 'chat-resumo');
+    provider.release('- salário no dia 5');
+    await tick();
+
+    await service.generateResponse('e agora?', 'chat-resumo');
+    const request = provider.lastRequest();
+    const contents = request.messages.map((message) => (message.role === 'tool' ? '' : message.content));
+
+    assert.match(request.systemPrompt, /salário no dia 5/);
+    assert.ok(contents.includes('meu salário cai dia 5'));
+    assert.ok(!contents.includes('msg 1'));
+  });
+
+  it('descarta o resumo se o chat foi esquecido no meio', async () => {
+    const provider = new SlowSummaryProvider();
+    const service = new AIService(null, provider);
+
+    await talk(service, 'chat-esquecido', 6);
+    service.clearHistory('chat-esquecido');
+    provider.release('- resumo antigo');
+    await tick();
+
+    await service.generateResponse('oi', 'chat-esquecido');
+    assert.doesNotMatch(provider.lastRequest().systemPrompt, /resumo antigo/);
+    assert.equal(provider.lastRequest().messages.length, 1);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BudgetService } from '../budget/budgetService';
+import { UpdateRequest } from '../types';
+import { createTestUpdater, todayRequest } from './helpers';
+
+describe('BudgetService', () => {
+  it('avisa uma vez ao cruzar 80% e uma vez ao cruzar 100%', async () => {
+    const { updater } = await createTestUpdater();
+    const budgets = new BudgetService();
+    const chatId = 'chat-orcamento-diario';
+    budgets.setBudget(chatId, 'diario', 100);
+
+    const record = async (value: number) => {
+      const request = todayRequest({ chatId, value });
+      await updater.updateValue(request);
+      return budgets.getStatusAfterUpdate(chatId, request, updater);
+    };
+
+    const below = await record(70);
+    assert.match(below, /70%/);
+    assert.doesNotMatch(below, /ATENÇÃO|ESTOURADO/);
+
+    assert.match(await record(15), /ATENÇÃO!\n🍽️ Diário atingiu 80%/);
+    assert.doesNotMatch(await record(5), /ATENÇÃO|ESTOURADO/);
+
+    const over = await record(15);
+    assert.match(over, /ORÇAMENTO ESTOURADO!/);
+    assert.match(over, /Excedido em R\$\s5,00/);
+
+    assert.doesNotMatch(await record(10), /ATENÇÃO|ESTOURADO/);
+  });
+
+  it('salta direto para 100% sem repetir o aviso de 80%', async () => {
+    const { updater } = await createTestUpdater();
+    const budgets = new BudgetService();
+    const chatId = 'chat-orcamento-mercado';
+    budgets.setBudget(chatId, 'mercado', 200);
+
+    const request = todayRequest({ chatId, type: 'saida', value: 250, category: 'mercado' });
+    await updater.updateValue(request);
+    const status = await budgets.getStatusAfterUpdate(chatId, request, updater);
+
+    assert.match(status, /ORÇAMENTO ESTOURADO!/);
+    assert.doesNotMatch(status, /ATENÇÃO/);
+  });
+
+  it('soma as linhas de uma mensagem antes de decidir o aviso', async () => {
+    const { updater } = await createTestUpdater();
+    const budgets = new BudgetService();
+    const chatId = 'chat-orcamento-linhas';
+    budgets.setBudget(chatId, 'diario', 100);
+
+    const requests: UpdateRequest[] = [todayRequest({ chatId, value: 50 }), todayRequest({ chatId, value: 35 })];
+    await updater.updateValues(requests);
+    const status = await budgets.getStatusAfterUpdates(chatId, requests, updater);
+
+    assert.equal(status.match(/🎯 Orçamento/g)?.length, 1);
+    assert.match(status, /85%/);
+    assert.match(status, /atingiu 80%/);
+  });
+
+  it('não avisa em substituições, nem em entradas', async () => {
+    const { updater } = await createTestUpdater();
+    const budgets = new BudgetService();
+    const chatId = 'chat-orcamento-substitui';
+    budgets.setBudget(chatId, 'saida', 100);
+
+    const request = todayRequest({ chatId, type: 'saida', value: 90, shouldReplace: true });
+    await updater.updateValue(request);
+
+    assert.doesNotMatch(await budgets.getStatusAfterUpdate(chatId, request, updater), /ATENÇÃO|ESTOURADO/);
+    assert.equal(
+      await budgets.getStatusAfterUpdate(chatId, todayRequest({ chatId, type: 'entrada', value: 500 }), updater),
+      ''
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeGoogleSheetsService } from '../sheets/fakeGoogleSheets';
+
+describe('FakeGoogleSheetsService', () => {
+  it('lê e escreve células com ou sem nome de aba', async () => {
+    const fake = new FakeGoogleSheetsService('Teste', ['Página1', '2026']);
+
+    await fake.writeCell('B6', 'R$ 10,00');
+    await fake.writeCell("'2026'!C7", 'R$ 20,00');
+
+    assert.equal(await fake.readCell('Página1!B6'), 'R$ 10,00');
+    assert.equal(await fake.readCell('2026!C7'), 'R$ 20,00');
+    assert.equal(await fake.readCell("'2026'!B6"), null);
+  });
+
+  it('falha ao acessar uma aba inexistente, como a API', async () => {
+    const fake = new FakeGoogleSheetsService();
+    await assert.rejects(fake.readCell("'2030'!B6"), /Unable to parse range/);
+  });
+
+  it('lê intervalos sem as células vazias do fim', async () => {
+    const fake = new FakeGoogleSheetsService();
+    await fake.writeRange('B2:D3', [
+      ['a', '', 'c'],
+      ['d', ''],
+    ]);
+
+    assert.deepEqual(await fake.readRange('B2:F10'), [['a', '', 'c'], ['d']]);
+    assert.deepEqual(await fake.readRange('H1:H5'), []);
+  });
+
+  it('calcula fórmulas de soma e subtração', async () => {
+    const fake = new FakeGoogleSheetsService();
+    await fake.batchWrite([
+      { range: 'C6:E7', values: [['R$ 100,00', 'R$ 30,00', '10'], ['50', '', '5,5']] },
+      { range: 'F6:F7', values: [['=C6-D6-E6'], ['=F6+C7-D7-E7']] },
+      { range: 'C40', values: [['=SUM(C6:C36)']] },
+    ]);
+
+    assert.equal(await fake.readCell('F6'), 'R$ 60,00');
+    assert.equal(await fake.readCell('F7'), 'R$ 104,50');
+    assert.equal(await fake.readCell('C40'), 'R$ 150,00');
+    assert.equal(fake.getRawValue('F7'), '=F6+C7-D7-E7');
+
+    const totals = await fake.batchRead(['C40', 'F7', 'Z99']);
+    assert.equal(totals.get('C40'), 'R$ 150,00');
+    assert.equal(totals.get('Z99'), null);
+  });
+
+  it('adiciona linhas após a última preenchida', async () => {
+    const fake = new FakeGoogleSheetsService();
+    await fake.appendRows('A:C', [['cabeçalho']]);
+    await fake.appendRows('A:C', [['1', '2'], ['3', '4']]);
+
+    assert.deepEqual(await fake.readRange('A:C'), [['cabeçalho'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('duplica, cria, lista e limpa abas', async () => {
+    const fake = new FakeGoogleSheetsService('Teste', ['Modelo']);
+    await fake.writeCell('Modelo!B6', '1');
+    await fake.writeCell('Modelo!C6', 'R$ 5,00');
+
+    assert.equal(await fake.ensureSheet('Modelo'), false);
+    assert.equal(await fake.ensureSheet('Lançamentos'), true);
+    await fake.duplicateSheet(0, '2026', 1);
+    await fake.clearRanges(["'2026'!C6:C36"]);
+
+    assert.deepEqual(
+      (await fake.listSheets()).map((sheet) => sheet.title),
+      ['Modelo', '2026', 'Lançamentos']
+    );
+    assert.equal(await fake.readCell("'2026'!B6"), '1');
+    assert.equal(await fake.readCell("'2026'!C6"), null);
+    assert.equal(await fake.readCell('Modelo!C6'), 'R$ 5,00');
+  });
+});
@@ -0,0 +1,81 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FakeGoogleSheetsService } from '../sheets/fakeGoogleSheets';
+import { SheetLayout } from '../sheets/sheetLayout';
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { GoogleSheetsStorage } from '../storage/googleSheetsStorage';
+import { SqliteStorage } from '../storage/sqliteStorage';
+import { UpdateRequest } from '../types';
+import { DateHelper } from '../utils/dateHelper';
+
+// Arquivos de dados (fila de escritas etc.) em uma pasta temporária
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'finance-bot-tests-'));
+
+let nextSpreadsheet = 0;
+
+/**
+ * SheetUpdater ligado a uma planilha em memória, já com a aba modelo
+ * e a aba do ano atual (como depois do "configurar planilha")
+ */
+export async function createTestUpdater(): Promise<{ updater: SheetUpdater; fake: FakeGoogleSheetsService }> {
+  const fake = new FakeGoogleSheetsService();
+  // Um ID por planilha de teste: cada uma tem a sua fila de escritas
+  const spreadsheetId = `planilha-teste-${++nextSpreadsheet}`;
+  const updater = new SheetUpdater(spreadsheetId, new GoogleSheetsStorage(undefined, fake));
+  await updater.createTemplate();
+  return { updater, fake };
+}
+
+/**
+ * Armazenamentos testados com as mesmas suítes (planilha em memória e SQLite)
+ */
+export const TEST_BACKENDS = ['planilha', 'sqlite'] as const;
+export type TestBackend = (typeof TEST_BACKENDS)[number];
+
+/**
+ * SheetUpdater pronto no armazenamento pedido, com uma leitura do valor
+ * gravado no dia do lançamento (ex: "R$ 10,00", null se vazio)
+ */
+export async function createBackendUpdater(backend: TestBackend): Promise<{
+  updater: SheetUpdater;
+  readStored: (request: UpdateRequest) => Promise<string | null>;
+}> {
+  if (backend === 'planilha') {
+    const { updater, fake } = await createTestUpdater();
+    return { updater, readStored: async (request) => fake.getRawValue(cellOf(request)) };
+  }
+
+  const spreadsheetId = `banco-teste-${++nextSpreadsheet}`;
+  const storage = new SqliteStorage(spreadsheetId, ':memory:');
+  const updater = new SheetUpdater(spreadsheetId, storage);
+  return {
+    updater,
+    readStored: (request) => storage.readValue(request.type, request.day, request.month, request.year),
+  };
+}
+
+/**
+ * Lançamento na data de hoje (os relatórios usam sempre o mês atual)
+ */
+export function todayRequest(overrides: Partial<UpdateRequest> = {}): UpdateRequest {
+  const today = DateHelper.getBrasiliaTime();
+  return {
+    type: 'diario',
+    value: 0,
+    day: today.getDate(),
+    month: today.getMonth() + 1,
+    year: today.getFullYear(),
+    chatId: 'chat-teste',
+    ...overrides,
+  };
+}
+
+/**
+ * Célula de um tipo no dia do lançamento (ex: "'2026'!BG24")
+ */
+export function cellOf(request: UpdateRequest): string {
+  const layout = SheetLayout.get();
+  const column = layout.getColumn(request.type, layout.getColumnOffset(request.month));
+  return `'${request.year}'!${column}${layout.getRow(request.day)}`;
+}
@@ -0,0 +1,198 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageParser } from '../utils/messageParser';
+import { DateHelper } from '../utils/dateHelper';
+
+function sameDay(date: Date, expected: Date): void {
+  assert.equal(DateHelper.formatDate(date), DateHelper.formatDate(expected));
+}
+
+describe('MessageParser.parse', () => {
+  it('entende os três tipos de registro', () => {
+    assert.equal(MessageParser.parse('entrada 1000')?.type, 'entrada');
+    assert.equal(MessageParser.parse('saida 200')?.type, 'saida');
+    assert.equal(MessageParser.parse('saída 200')?.type, 'saida');
+    assert.equal(MessageParser.parse('diario 50')?.type, 'diario');
+  });
+
+  it('usa diário quando a mensagem é só o valor', () => {
+    const parsed = MessageParser.parse('517');
+    assert.equal(parsed?.type, 'diario');
+    assert.equal(parsed?.value, 517);
+  });
+
+  it('aceita vírgula ou ponto como decimal', () => {
+    assert.equal(MessageParser.parse('diario 87,10')?.value, 87.1);
+    assert.equal(MessageParser.parse('diario 87.10')?.value, 87.1);
+  });
+
+  it('entende separador de milhar, "R$" e "k"/"mil"', () => {
+    assert.equal(MessageParser.parse('diario 1.500')?.value, 1500);
+    assert.equal(MessageParser.parse('1.500')?.value, 1500);
+    assert.equal(MessageParser.parse('entrada R$ 1.234,56')?.value, 1234.56);
+    assert.equal(MessageParser.parse('entrada 1,234.56')?.value, 1234.56);
+    assert.equal(MessageParser.parse('entrada 1.234.567')?.value, 1234567);
+    assert.equal(MessageParser.parse('entrada 1,2k')?.value, 1200);
+    assert.equal(MessageParser.parse('entrada 2 mil salário')?.value, 2000);
+    assert.equal(MessageParser.parse('entrada 2 mil salário')?.description, 'salário');
+    assert.equal(MessageParser.parse('diario 1.5')?.value, 1.5);
+  });
+
+  it('calcula somas e multiplicações', () => {
+    const sum = MessageParser.parse('diario 12+8,50+30 mercado');
+    assert.equal(sum?.value, 50.5);
+    assert.equal(sum?.expression, '12 + 8,50 + 30');
+    assert.equal(sum?.description, 'mercado');
+
+    const product = MessageParser.parse('saida 3x 49,90');
+    assert.equal(product?.value, 149.7);
+    assert.equal(product?.expression, '3 × 49,90');
+
+    assert.equal(MessageParser.parse('10 + 2x5')?.value, 20);
+    assert.equal(MessageParser.parse('10 + 2x5')?.type, 'diario');
+    assert.equal(MessageParser.parse('diario 45')?.expression, undefined);
+  });
+
+  it('soma por padrão e substitui com "sub"', () => {
+    assert.equal(MessageParser.parse('diario 50')?.shouldReplace, false);
+
+    const parsed = MessageParser.parse('sub 300 hoje');
+    assert.equal(parsed?.type, 'diario');
+    assert.equal(parsed?.value, 300);
+    assert.equal(parsed?.shouldReplace, true);
+  });
+
+  it('interpreta hoje, ontem, amanhã e datas dd/mm', () => {
+    const today = DateHelper.getBrasiliaTime();
+    const yesterday = new Date(today);
+    yesterday.setDate(today.getDate() - 1);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(today.getDate() + 1);
+
+    sameDay(MessageParser.parse('diario 10')!.date, today);
+    sameDay(MessageParser.parse('diario 10 ontem')!.date, yesterday);
+    sameDay(MessageParser.parse('diario 10 amanha')!.date, tomorrow);
+    sameDay(MessageParser.parse('saida 10 05/03/2025')!.date, new Date(2025, 2, 5));
+  });
+
+  it('aceita valor com descrição curta e data como diário', () => {
+    assert.equal(MessageParser.parse('45 conta de luz ontem')?.type, 'diario');
+    assert.equal(MessageParser.parse('45 conta de luz ontem')?.description, 'conta de luz');
+    assert.equal(MessageParser.parse('35 amanha')?.type, 'diario');
+  });
+
+  it('extrai descrição e categoria', () => {
+    const parsed = MessageParser.parse('diario 45 mercado');
+    assert.equal(parsed?.value, 45);
+    assert.equal(parsed?.description, 'mercado');
+    assert.equal(parsed?.category, 'alimentação');
+  });
+
+  it('reconhece os relatórios', () => {
+    assert.equal(MessageParser.parse('saldo')?.type, 'hoje');
+    assert.equal(MessageParser.parse('resumo')?.type, 'hoje');
+    assert.equal(MessageParser.parse('saldo semana')?.type, 'semana');
+
+    const day = MessageParser.parse('saldo 16/12');
+    assert.equal(day?.type, 'saldo');
+    assert.equal(day?.targetDate?.getDate(), 16);
+    assert.equal(day?.targetDate?.getMonth(), 11);
+
+    const categories = MessageParser.parse('categorias 11/2025');
+    assert.equal(categories?.type, 'categorias');
+    sameDay(categories!.targetDate!, new Date(2025, 10, 1));
+    assert.equal(categories?.invalidDate, undefined);
+
+    for (const invalid of ['categorias 13/2025', 'categorias 0/2025']) {
+      const parsed = MessageParser.parse(invalid);
+      assert.equal(parsed?.type, 'categorias');
+      assert.equal(parsed?.invalidDate, true);
+      assert.equal(parsed?.targetDate, undefined);
+    }
+  });
+
+  it('reconhece os comandos', () => {
+    assert.equal(MessageParser.parse('ajuda')?.type, 'ajuda');
+    assert.equal(MessageParser.parse('desfazer')?.value, 1);
+
+    const undo = MessageParser.parse('desfazer 3');
+    assert.equal(undo?.type, 'desfazer');
+    assert.equal(undo?.value, 3);
+    assert.equal(MessageParser.parse('desfazer 0')?.value, 0);
+
+    assert.equal(MessageParser.parse('configurar planilha')?.type, 'configurar_planilha');
+    assert.equal(MessageParser.parse('pendentes')?.type, 'pendentes');
+    assert.equal(MessageParser.parse('cancelar recorrente 2')?.type, 'cancelar_recorrente');
+
+    const budget = MessageParser.parse('orcamento diario 1500');
+    assert.equal(budget?.type, 'orcamento');
+    assert.equal(budget?.target, 'diario');
+    assert.equal(budget?.value, 1500);
+  });
+
+  it('reconhece lançamentos recorrentes', () => {
+    const parsed = MessageParser.parse('recorrente saida 1200 aluguel dia 5');
+    assert.equal(parsed?.type, 'recorrente');
+    assert.equal(parsed?.entryType, 'saida');
+    assert.equal(parsed?.value, 1200);
+    assert.equal(parsed?.dueDay, 5);
+    assert.equal(parsed?.category, 'moradia');
+  });
+
+  it('ignora mensagens que não são comandos', () => {
+    assert.equal(MessageParser.parse('oi tudo bem'), null);
+    assert.equal(MessageParser.parse('2 perguntas sobre meu saldo'), null);
+    assert.equal(MessageParser.parse('45 entrada do show'), null);
+    assert.equal(MessageParser.parse('quanto foi a saida 50?'), null);
+    assert.equal(MessageParser.parse('   '), null);
+    assert.equal(MessageParser.isValidCommand('diario 10'), true);
+  });
+});
+
+describe('MessageParser.parseBatch', () => {
+  it('separa comandos por linha ou ";"', () => {
+    const lines = MessageParser.parseBatch('diario 45 mercado\nsaida 120 luz ontem; entrada 500\n\n');
+    assert.deepEqual(
+      lines?.map(({ line, parsed }) => [line, parsed?.type, parsed?.value]),
+      [
+        ['diario 45 mercado', 'diario', 45],
+        ['saida 120 luz ontem', 'saida', 120],
+        ['entrada 500', 'entrada', 500],
+      ]
+    );
+  });
+
+  it('mantém linhas não reconhecidas para o recibo', () => {
+    const lines = MessageParser.parseBatch('diario 10\noi tudo bem');
+    assert.equal(lines?.length, 2);
+    assert.equal(lines?.[1].parsed, null);
+  });
+
+  it('retorna null para um comando só', () => {
+    assert.equal(MessageParser.parseBatch('diario 10'), null);
+    assert.equal(MessageParser.parseBatch('diario 10;\n'), null);
+  });
+});
+
+describe('MessageParser.fromIntent', () => {
+  it('converte o registro da IA com as mesmas regras do parse', () => {
+    const yesterday = DateHelper.getBrasiliaTime();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    const parsed = MessageParser.fromIntent({ type: 'diário', value: 432, date: 'ontem', description: 'mercado' });
+    assert.equal(parsed?.type, 'diario');
+    assert.equal(parsed?.value, 432);
+    assert.equal(parsed?.description, 'mercado');
+    assert.equal(parsed?.category, 'alimentação');
+    sameDay(parsed!.date, yesterday);
+
+    sameDay(MessageParser.fromIntent({ type: 'saida', value: 10, date: '2025-03-05' })!.date, new Date(2025, 2, 5));
+  });
+
+  it('rejeita tipo, valor ou data inválidos', () => {
+    assert.equal(MessageParser.fromIntent({ type: 'saldo', value: 10 }), null);
+    assert.equal(MessageParser.fromIntent({ type: 'diario', value: -5 }), null);
+    assert.equal(MessageParser.fromIntent({ type: 'diario', value: NaN }), null);
+    assert.equal(MessageParser.fromIntent({ type: 'diario', value: 10, date: '31/13' }), null);
+  });
+});
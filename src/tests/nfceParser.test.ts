@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NfceParser } from '../receipt/nfceParser';
+
+// Chaves de NFC-e (modelo 65) com dígito verificador válido
+const SP_KEY = '35251006113947000137650010001234561000123457'; // SP, out/2025
+const PR_KEY = '41250833104749000122650020000456781000987652'; // PR, ago/2025
+const MG_KEY = '31250971404020000166650010000003219000112236'; // MG, set/2025
+
+describe('NfceParser', () => {
+  it('decompõe a chave de acesso', () => {
+    assert.deepEqual(NfceParser.parseAccessKey(SP_KEY), {
+      accessKey: SP_KEY,
+      uf: '35',
+      year: 2025,
+      month: 10,
+      cnpj: '06113947000137',
+      model: '65',
+    });
+  });
+
+  it('recusa chave com dígito verificador errado', () => {
+    const wrongDigit = SP_KEY.slice(0, 43) + ((parseInt(SP_KEY[43]) + 1) % 10);
+
+    assert.equal(NfceParser.parseAccessKey(wrongDigit), null);
+    assert.equal(NfceParser.parse(`https://www.nfce.fazenda.sp.gov.br/qrcode?p=${wrongDigit}|2|1|1|ABC`), null);
+  });
+
+  it('lê o QR code v1 com a data de emissão em hexadecimal', () => {
+    const dhEmi = Buffer.from('2025-10-14T18:32:05-03:00').toString('hex');
+    const url = `https://www.nfce.fazenda.sp.gov.br/qrcode?chNFe=${SP_KEY}&nVersao=100&tpAmb=1&dhEmi=${dhEmi}&vNF=87.10&vICMS=0.00&digVal=6a4f&cIdToken=000001&cHashQRCode=ABCDEF`;
+
+    const data = NfceParser.parse(url);
+
+    assert.equal(data?.accessKey, SP_KEY);
+    assert.equal(data?.day, 14);
+    assert.equal(data?.total, 87.1);
+  });
+
+  it('lê o QR code v2 online sem dia nem valor', () => {
+    const url = `http://www.fazenda.pr.gov.br/nfce/qrcode?p=${PR_KEY}|2|1|1|3F9A8C21B7E4D6F0A1B2C3D4E5F60718293A4B5C`;
+
+    const data = NfceParser.parse(url);
+
+    assert.equal(data?.accessKey, PR_KEY);
+    assert.equal(data?.month, 8);
+    assert.equal(data?.day, undefined);
+    assert.equal(data?.total, undefined);
+  });
+
+  it('lê dia e valor do QR code offline (v2 e v3)', () => {
+    const v2 = NfceParser.parse(
+      `https://portalsped.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=${MG_KEY}|2|1|09|45.90|4f2b3c|1|3F9A8C21B7E4D6F0A1B2`
+    );
+    const v3 = NfceParser.parse(`https://www.nfce.fazenda.sp.gov.br/qrcode?p=${SP_KEY}|3|1|14|132,45|4f2b3c|1|ABC123`);
+
+    assert.equal(v2?.day, 9);
+    assert.equal(v2?.total, 45.9);
+    assert.equal(v3?.day, 14);
+    assert.equal(v3?.total, 132.45);
+  });
+
+  it('encontra a chave impressa em grupos de 4 dígitos', () => {
+    const printed = `CHAVE DE ACESSO\n${SP_KEY.match(/.{4}/g)!.join(' ')}\nConsulte pela chave`;
+
+    assert.equal(NfceParser.parse(printed)?.accessKey, SP_KEY);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PendingActions } from '../bot/pendingActions';
+
+describe('PendingActions', () => {
+  it('só aceita a resposta de quem enviou o valor', async () => {
+    const pending = new PendingActions();
+    pending.set('grupo', 'R$ 450,00 de diario', async () => 'ok', 'ana');
+
+    // Outra pessoa do grupo não confirma nem cancela
+    assert.deepEqual(pending.take('grupo', 'bruno'), { action: null, expired: false });
+    assert.equal(pending.has('grupo'), true);
+
+    const { action } = pending.take('grupo', 'ana');
+    assert.equal(await action?.confirm(), 'ok');
+    assert.equal(pending.has('grupo'), false);
+  });
+
+  it('aceita qualquer resposta quando não sabe quem enviou', () => {
+    const pending = new PendingActions();
+    pending.set('default', 'R$ 450,00 de diario', async () => 'ok');
+
+    assert.notEqual(pending.take('default', 'ana').action, null);
+  });
+});
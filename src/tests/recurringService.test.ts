@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecurringService } from '../recurring/recurringService';
+import { UpdateRequest } from '../types';
+import { cellOf, createTestUpdater, todayRequest } from './helpers';
+
+// Vence hoje: o lançamento do mês atual já está pendente ao cadastrar
+const dueToday = (value: number, description: string) => ({
+  type: 'saida' as const,
+  value,
+  dueDay: todayRequest().day,
+  description,
+  category: '',
+});
+
+describe('RecurringService.applyDue', () => {
+  it('só conta o mês depois que o valor chega à planilha', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const service = new RecurringService();
+    const request = todayRequest({ type: 'saida' });
+    service.addRule('chat-recorrente-fora', dueToday(1200, 'aluguel'));
+
+    fake.offline = true;
+    assert.equal(await service.applyDue('chat-recorrente-fora', updater), null);
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+
+    fake.offline = false;
+    assert.match((await service.applyDue('chat-recorrente-fora', updater)) || '', /Recorrentes lançados/);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 1200,00');
+
+    // O mês já foi lançado: nada é repetido
+    assert.equal(await service.applyDue('chat-recorrente-fora', updater), null);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 1200,00');
+  });
+
+  it('não pula regras canceladas durante a aplicação', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const service = new RecurringService();
+    service.addRule('chat-recorrente-cancela', dueToday(100, 'internet'));
+    service.addRule('chat-recorrente-cancela', dueToday(50, 'streaming'));
+
+    // "cancelar recorrente 1" chega enquanto o primeiro valor é gravado
+    const updateValue = updater.updateValue.bind(updater);
+    updater.updateValue = async (request: UpdateRequest, options?: { queue?: boolean }) => {
+      if (request.value === 100) service.removeRule('chat-recorrente-cancela', 1);
+      return updateValue(request, options);
+    };
+
+    const summary = await service.applyDue('chat-recorrente-cancela', updater);
+
+    assert.match(summary || '', /streaming/);
+    assert.equal(fake.getRawValue(cellOf(todayRequest({ type: 'saida' }))), 'R$ 150,00');
+  });
+});
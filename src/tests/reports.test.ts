@@ -0,0 +1,175 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { DateHelper } from '../utils/dateHelper';
+import { createBackendUpdater, createTestUpdater, TEST_BACKENDS, todayRequest } from './helpers';
+
+/**
+ * Relatórios do mês atual com: entrada de 1000, saída de 12,90 e
+ * diário de 87,10 (mercado), todos lançados hoje
+ */
+for (const backend of TEST_BACKENDS) {
+  describe(`Relatórios (${backend})`, () => {
+    let updater: SheetUpdater;
+    const today = DateHelper.getBrasiliaTime();
+    const month = today.getMonth() + 1;
+    const year = today.getFullYear();
+
+    before(async () => {
+      ({ updater } = await createBackendUpdater(backend));
+      await updater.updateValue(todayRequest({ type: 'entrada', value: 1000, description: 'salário' }));
+      await updater.updateValue(todayRequest({ type: 'saida', value: 12.9, description: 'farmácia', category: 'saúde' }));
+      await updater.updateValue(todayRequest({ value: 87.1, description: 'mercado', category: 'alimentação' }));
+    });
+
+    it('getMonthTotals soma os totais do mês', async () => {
+      const summary = await updater.getMonthTotals(month, year);
+
+      assert.equal(summary?.totalEntradas, 1000);
+      assert.equal(summary?.totalSaidas, 12.9);
+      assert.equal(summary?.totalDiario, 87.1);
+      assert.equal(summary?.saidaTotal, 100);
+      assert.equal(summary?.performance, 900);
+      assert.equal(summary?.diasComDados, 1);
+    });
+
+    it('getMonthDays traz os dias até hoje com o saldo acumulado', async () => {
+      const days = await updater.getMonthDays(month, year);
+
+      assert.equal(days.length, today.getDate());
+      assert.equal(days[today.getDate() - 1].saldo, 900);
+    });
+
+    it('getDayReport mostra os valores e o saldo do dia', async () => {
+      const report = await updater.getDayReport(today);
+
+      assert.match(report, /RESUMO DO DIA/);
+      assert.match(report, new RegExp(DateHelper.formatDate(today)));
+      assert.match(report, /R\$\s1\.000,00/);
+      assert.match(report, /R\$\s87,10/);
+      assert.match(report, /R\$\s900,00/);
+    });
+
+    it('getWeekReport soma os últimos 7 dias', async () => {
+      const report = await updater.getWeekReport();
+
+      assert.match(report, /RESUMO SEMANAL/);
+      assert.match(report, /Total de Entradas\n\s+R\$\s1\.000,00/);
+      assert.match(report, /SALDO FINAL\n\s+R\$\s900,00/);
+    });
+
+    it('getMonthReport mostra os totais do mês', async () => {
+      const report = await updater.getMonthReport();
+
+      assert.match(report, /RESUMO MENSAL/);
+      assert.match(report, /Total ENTRADAS:\* R\$\s1\.000,00/);
+      assert.match(report, /Total SAÍDAS:\* R\$\s12,90/);
+      assert.match(report, /SALDO ATUAL:\* R\$\s900,00/);
+    });
+
+    it('getCompleteMonthReport lista o dia com registros', async () => {
+      const report = await updater.getCompleteMonthReport(month, year);
+
+      assert.match(report, /R\$\s1\.000,00/);
+      assert.match(report, /R\$\s900,00/);
+    });
+
+    it('getPerformanceReport calcula o resultado do mês', async () => {
+      const report = await updater.getPerformanceReport();
+
+      assert.match(report, /PERFORMANCE/);
+      assert.match(report, /RESULTADO\n\s+R\$\s900,00/);
+      assert.match(report, /90\.0% de economia/);
+    });
+
+    it('getCategoryTotals agrupa os gastos pelo livro de lançamentos', async () => {
+      const totals = await updater.getCategoryTotals(month, year);
+
+      assert.deepEqual(
+        totals.map(({ category, total }) => ({ category, total })),
+        [
+          { category: 'alimentação', total: 87.1 },
+          { category: 'saúde', total: 12.9 },
+        ]
+      );
+    });
+
+    it('getCategoryReport mostra as categorias com mais gastos', async () => {
+      const report = await updater.getCategoryReport();
+
+      assert.match(report, /alimentação/i);
+      assert.match(report, /saúde/i);
+      assert.ok(report.indexOf('87,10') < report.indexOf('12,90'));
+    });
+
+    it('getComparisonReport compara com o mês anterior (sem registros)', async () => {
+      const report = await updater.getComparisonReport();
+
+      assert.match(report, /COMPARAÇÃO MENSAL/);
+      assert.match(report, /R\$\s1\.000,00 a mais/);
+      assert.match(report, /R\$\s900,00 melhor/);
+    });
+
+    it('getForecastReport projeta o fim do mês pela média diária', async () => {
+      const report = await updater.getForecastReport();
+      const daysInMonth = new Date(year, month, 0).getDate();
+
+      assert.match(report, /PREVISÃO FIM DE MÊS/);
+      assert.match(report, new RegExp(`Dia ${today.getDate()} de ${daysInMonth}`));
+      assert.match(report, /R\$\s1\.000,00\n\s+\(valor fixo\)/);
+    });
+  });
+}
+
+describe('Leituras da planilha', () => {
+  it('cada relatório lê o mês em uma única requisição', async () => {
+    const { updater, fake } = await createTestUpdater();
+    await updater.updateValue(todayRequest({ type: 'entrada', value: 500 }));
+
+    const reads = () =>
+      fake.countCalls('batchReadRanges') + fake.countCalls('readRange') + fake.countCalls('batchRead');
+    const before = reads();
+
+    await updater.getMonthReport();
+    await updater.getMonthTotals(todayRequest().month, todayRequest().year);
+    await updater.getDayReport(DateHelper.getBrasiliaTime());
+    await updater.getPerformanceReport();
+    await updater.getForecastReport();
+
+    assert.equal(reads() - before, 1);
+  });
+
+  it('a semana lê no máximo os dois meses envolvidos', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const before = fake.countCalls('batchReadRanges');
+
+    await updater.getWeekReport();
+
+    assert.ok(fake.countCalls('batchReadRanges') - before <= 2);
+    assert.equal(fake.countCalls('readRange'), 0);
+  });
+
+  it('as escritas do bot descartam o mês em cache', async () => {
+    const { updater } = await createTestUpdater();
+    const request = todayRequest({ type: 'entrada', value: 100 });
+
+    await updater.updateValue(request);
+    assert.equal((await updater.getMonthTotals(request.month, request.year))?.totalEntradas, 100);
+
+    await updater.updateValue(request);
+    assert.equal((await updater.getMonthTotals(request.month, request.year))?.totalEntradas, 200);
+
+    await updater.undoLast(request.chatId);
+    assert.equal((await updater.getMonthTotals(request.month, request.year))?.totalEntradas, 100);
+  });
+
+  it('os relatórios não escrevem na planilha', async () => {
+    const { updater, fake } = await createTestUpdater();
+    await updater.updateValue(todayRequest({ value: 87.1, category: 'alimentação' }));
+
+    const writes = fake.countCalls('writeCell') + fake.countCalls('appendRows');
+    await updater.getMonthReport();
+    await updater.getCategoryReport();
+    assert.equal(fake.countCalls('writeCell') + fake.countCalls('appendRows'), writes);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReportScheduler } from '../bot/scheduler';
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import './helpers';
+
+// Relatórios fixos: aqui só importa qual resumo saiu e quando
+const reportsStub = {
+  getDayReport: async () => 'dia',
+  getWeekReport: async () => 'semana',
+  getCompleteMonthReport: async (month: number, year: number) => `mês ${month}/${year}`,
+} as unknown as SheetUpdater;
+
+function createScheduler(chatId: string, isConnected: () => boolean = () => true) {
+  const sent: string[] = [];
+  const scheduler = new ReportScheduler(
+    [chatId],
+    () => reportsStub,
+    async (_chatId, message) => {
+      sent.push(message.split('\n\n')[1]);
+    },
+    isConnected
+  );
+  return { scheduler, sent };
+}
+
+// 18/10/2026 é domingo; 19/10/2026, segunda; 01/11/2026, domingo e dia 1
+const at = (day: number, month: number, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, month - 1, day, hours, minutes);
+};
+
+describe('ReportScheduler', () => {
+  it('envia o resumo diário a partir do horário, uma vez por dia', async () => {
+    const { scheduler, sent } = createScheduler('chat-agenda-diario');
+
+    await scheduler.tick(at(19, 10, '20:59'));
+    assert.deepEqual(sent, []);
+
+    await scheduler.tick(at(19, 10, '21:00'));
+    await scheduler.tick(at(19, 10, '22:30'));
+    assert.deepEqual(sent, ['dia']);
+
+    await scheduler.tick(at(20, 10, '21:00'));
+    assert.deepEqual(sent, ['dia', 'dia']);
+  });
+
+  it('envia o resumo semanal só aos domingos', async () => {
+    const { scheduler, sent } = createScheduler('chat-agenda-semanal');
+
+    await scheduler.tick(at(18, 10, '21:00'));
+    await scheduler.tick(at(19, 10, '21:00'));
+
+    assert.deepEqual(sent, ['dia', 'semana', 'dia']);
+  });
+
+  it('envia o fechamento do mês anterior no dia 1', async () => {
+    const { scheduler, sent } = createScheduler('chat-agenda-mensal');
+
+    await scheduler.tick(at(31, 10, '09:00'));
+    assert.deepEqual(sent, []);
+
+    await scheduler.tick(at(1, 11, '09:00'));
+    assert.deepEqual(sent, ['mês 10/2026']);
+
+    await scheduler.tick(at(1, 1, '09:00'));
+    assert.deepEqual(sent, ['mês 10/2026', 'mês 12/2025']);
+  });
+
+  it('espera a conexão e envia o resumo atrasado', async () => {
+    let connected = false;
+    const { scheduler, sent } = createScheduler('chat-agenda-desconectado', () => connected);
+
+    await scheduler.tick(at(19, 10, '21:00'));
+    assert.deepEqual(sent, []);
+
+    connected = true;
+    await scheduler.tick(at(19, 10, '23:10'));
+    assert.deepEqual(sent, ['dia']);
+  });
+});
@@ -0,0 +1,44 @@
+import { SheetUpdater } from '../sheets/sheetUpdater';
+import { SpreadsheetRegistry } from '../sheets/spreadsheetRegistry';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Script para gerar a grade modelo em uma planilha nova
+ *
+ * Uso: npm run setup:sheets [link ou ID da planilha]
+ * Sem argumento, usa a planilha do SHEET_ID
+ */
+async function setupSheets() {
+  const argument = process.argv[2];
+  const spreadsheetId = argument
+    ? SpreadsheetRegistry.extractId(argument)
+    : process.env.SHEET_ID || '';
+
+  if (!spreadsheetId) {
+    console.error('❌ Informe o link/ID da planilha ou configure SHEET_ID no .env');
+    process.exit(1);
+  }
+
+  console.log('🛠️  Configurando planilha...');
+  console.log(`   ${SpreadsheetRegistry.getUrl(spreadsheetId)}\n`);
+
+  try {
+    const updater = new SheetUpdater(spreadsheetId);
+    const title = await updater.getSpreadsheetTitle();
+    console.log(`📄 Planilha: ${title}\n`);
+
+    console.log(await updater.createTemplate());
+  } catch (error) {
+    console.error('\n❌ ERRO AO CONFIGURAR:', error);
+    console.log('\n🔍 Possíveis problemas:');
+    console.log('   1. Service Account não tem permissão de Editor na planilha');
+    console.log('   2. Link/ID da planilha incorreto');
+    console.log('   3. SHEET_LAYOUT_FILE inválido');
+    process.exit(1);
+  }
+}
+
+// Executa a configuração
+setupSheets();
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { DEFAULT_SHEET_LAYOUT, SheetLayout } from '../sheets/sheetLayout';
+import { SheetLayoutDescriptor } from '../types';
+import './helpers';
+
+/**
+ * Carrega o layout de um arquivo temporário, como o bot faz ao iniciar
+ */
+function loadLayout(name: string, content: unknown): SheetLayout {
+  const file = join(process.env.DATA_DIR!, name);
+  writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+
+  process.env.SHEET_LAYOUT_FILE = file;
+  try {
+    return SheetLayout.load();
+  } finally {
+    delete process.env.SHEET_LAYOUT_FILE;
+  }
+}
+
+describe('SheetLayout.validate', () => {
+  it('aceita o layout padrão', () => {
+    assert.deepEqual(SheetLayout.validate(DEFAULT_SHEET_LAYOUT), []);
+  });
+
+  it('recusa colunas repetidas ou que não são letras', () => {
+    const errors = SheetLayout.validate({
+      ...DEFAULT_SHEET_LAYOUT,
+      columns: { ...DEFAULT_SHEET_LAYOUT.columns, saida: 'C', saldo: '7' },
+    });
+
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /columns\.saida repete a coluna C/);
+    assert.match(errors[1], /columns\.saldo deve ser uma letra/);
+  });
+
+  it('recusa meses que se sobreporiam', () => {
+    const errors = SheetLayout.validate({ ...DEFAULT_SHEET_LAYOUT, monthBlockWidth: 3 });
+
+    assert.ok(errors.some((error) => /os meses se sobreporiam/.test(error)));
+  });
+
+  it('recusa totais inválidos, nas linhas dos dias ou fora do bloco de janeiro', () => {
+    const errors = SheetLayout.validate({
+      ...DEFAULT_SHEET_LAYOUT,
+      totals: { ...DEFAULT_SHEET_LAYOUT.totals, entrada: 'C20', saida: 'J40', diario: 'E', saidaTotal: 'B0' },
+    });
+
+    assert.deepEqual(errors, [
+      'totals.entrada (C20) fica nas linhas dos dias (6-36)',
+      'totals.saida (J40) fica fora do bloco de janeiro',
+      'totals.diario deve ser uma célula como "C40" (recebido: E)',
+      'totals.saidaTotal deve ser uma célula como "C40" (recebido: B0)',
+    ]);
+  });
+
+  it('recusa linha e largura que não são inteiros positivos', () => {
+    const errors = SheetLayout.validate({
+      ...DEFAULT_SHEET_LAYOUT,
+      firstDayRow: 0,
+      monthBlockWidth: 5.5,
+    } as SheetLayoutDescriptor);
+
+    assert.match(errors[0], /firstDayRow deve ser um número de linha/);
+    assert.match(errors[1], /monthBlockWidth deve ser um inteiro positivo/);
+  });
+});
+
+describe('SheetLayout.load', () => {
+  it('completa o arquivo com o layout padrão', () => {
+    const layout = loadLayout('layout-parcial.json', { firstDayRow: 8, totals: { entrada: 'C45' } });
+
+    assert.equal(layout.getRow(1), 8);
+    assert.equal(layout.getColumn('diario', layout.getColumnOffset(2)), 'K');
+    assert.equal(layout.getTotalCell('entrada', 0), 'C45');
+    assert.equal(layout.getTotalCell('saida', 0), 'D40');
+  });
+
+  it('não inicia com um layout inválido e lista todos os problemas', () => {
+    assert.throws(
+      () => loadLayout('layout-invalido.json', { firstDayRow: 30, columns: { entrada: 'B' } }),
+      (error: Error) => {
+        assert.match(error.message, /Layout da planilha inválido/);
+        assert.match(error.message, /columns\.entrada repete a coluna B/);
+        assert.match(error.message, /totals\.entrada \(C40\) fica nas linhas dos dias \(30-60\)/);
+        return true;
+      }
+    );
+  });
+
+  it('não inicia com um arquivo ilegível', () => {
+    assert.throws(() => loadLayout('layout-quebrado.json', '{ firstDayRow: '), /Não foi possível ler o layout/);
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CellChange } from '../types';
+import { cellOf, createBackendUpdater, createTestUpdater, TEST_BACKENDS, todayRequest } from './helpers';
+
+for (const backend of TEST_BACKENDS) {
+  describe(`SheetUpdater.updateValue (${backend})`, () => {
+    it('soma ao valor que já está na célula', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 87.1 });
+
+      const first = await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 12.9 });
+
+      assert.equal(first.success, true);
+      assert.equal(await readStored(request), 'R$ 100,00');
+    });
+
+    it('substitui o valor com shouldReplace', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ type: 'saida', value: 50 });
+
+      await updater.updateValue(request);
+      const result = await updater.updateValue({ ...request, value: 20, shouldReplace: true });
+
+      assert.equal(result.success, true);
+      assert.match(result.message, /Valor atualizado/);
+      assert.equal(await readStored(request), 'R$ 20,00');
+    });
+
+    it('atualiza o saldo do dia', async () => {
+      const { updater } = await createBackendUpdater(backend);
+      await updater.updateValue(todayRequest({ type: 'entrada', value: 1000 }));
+      await updater.updateValue(todayRequest({ type: 'diario', value: 87.1 }));
+
+      const request = todayRequest();
+      const day = await updater.getDayData(request.day, request.month, request.year);
+      assert.equal(day?.entrada, 1000);
+      assert.equal(day?.diario, 87.1);
+      assert.ok(Math.abs(day!.saldo - 912.9) < 0.001);
+    });
+
+    it('mostra a conta que gerou o valor', async () => {
+      const { updater } = await createBackendUpdater(backend);
+
+      const result = await updater.updateValue(todayRequest({ value: 149.7, expression: '3 × 49,90' }));
+
+      assert.match(result.message, /🧮 3 × 49,90/);
+      assert.match(result.message, /\+ R\$\s149,70/);
+    });
+
+    it('rejeita datas que não existem no mês', async () => {
+      const { updater } = await createBackendUpdater(backend);
+
+      const result = await updater.updateValue(todayRequest({ value: 10, day: 30, month: 2, year: 2026 }));
+
+      assert.equal(result.success, false);
+      assert.match(result.message, /Data inválida/);
+    });
+
+    it('registra cada lançamento no livro de lançamentos', async () => {
+      const { updater } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 45, description: 'mercado', category: 'alimentação', sender: 'Ana' });
+
+      await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 5, description: undefined, category: undefined });
+
+      const entries = await updater.getCategoryTotals(request.month, request.year);
+      assert.deepEqual(
+        entries.map(({ category, total, count }) => ({ category, total, count })),
+        [
+          { category: 'alimentação', total: 45, count: 1 },
+          { category: 'sem categoria', total: 5, count: 1 },
+        ]
+      );
+      assert.equal(entries[0].entries[0].sender, 'Ana');
+    });
+
+    it('desfaz a última escrita restaurando o valor anterior', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 30 });
+
+      await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 20 });
+      await updater.undoLast(request.chatId);
+
+      assert.equal(await readStored(request), 'R$ 30,00');
+    });
+
+    it('não desfaz uma substituição se a célula mudou depois', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ type: 'saida', value: 50 });
+
+      await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 20, shouldReplace: true });
+      await updater.updateValue({ ...request, value: 5, chatId: 'outro-chat' });
+      const response = await updater.undoLast(request.chatId);
+
+      assert.match(response, /Substituição não desfeita/);
+      assert.equal(await readStored(request), 'R$ 25,00');
+    });
+  });
+
+  describe(`SheetUpdater.updateValues (${backend})`, () => {
+    it('grava várias linhas de uma vez', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const diario = todayRequest({ value: 45 });
+      const saida = todayRequest({ type: 'saida', value: 120 });
+
+      const responses = await updater.updateValues([diario, saida, { ...diario, value: 5 }]);
+
+      assert.deepEqual(
+        responses.map((response) => response.success),
+        [true, true, true]
+      );
+      assert.equal(await readStored(diario), 'R$ 50,00');
+      assert.equal(await readStored(saida), 'R$ 120,00');
+      assert.match(responses[2].message, /Total: R\$\s50,00/);
+    });
+
+    it('responde cada linha, sem que uma data inválida impeça as demais', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 10 });
+
+      const [invalid, valid] = await updater.updateValues([
+        todayRequest({ value: 10, day: 30, month: 2, year: 2026 }),
+        request,
+      ]);
+
+      assert.equal(invalid.success, false);
+      assert.match(invalid.message, /Data inválida/);
+      assert.equal(valid.success, true);
+      assert.equal(await readStored(request), 'R$ 10,00');
+    });
+
+    it('desfaz as linhas uma a uma', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 20 });
+
+      await updater.updateValues([request, { ...request, value: 30 }]);
+      await updater.undoLast(request.chatId);
+      assert.equal(await readStored(request), 'R$ 20,00');
+
+      await updater.undoLast(request.chatId);
+      assert.equal(await readStored(request), null);
+    });
+
+    it('não desfaz nada com zero passos', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 20 });
+
+      await updater.updateValue(request);
+      const response = await updater.undoLast(request.chatId, 0);
+
+      assert.match(response, /Quantidade inválida/);
+      assert.equal(await readStored(request), 'R$ 20,00');
+    });
+  });
+
+  describe(`SheetUpdater (mensagens simultâneas, ${backend})`, () => {
+    it('não perde somas feitas ao mesmo tempo na mesma célula', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const request = todayRequest({ value: 20 });
+
+      await Promise.all(Array.from({ length: 5 }, () => updater.updateValue(request)));
+
+      assert.equal(await readStored(request), 'R$ 100,00');
+    });
+
+    it('não trava células diferentes entre si', async () => {
+      const { updater, readStored } = await createBackendUpdater(backend);
+      const diario = todayRequest({ value: 10 });
+      const saida = todayRequest({ type: 'saida', value: 5 });
+
+      await Promise.all([updater.updateValue(diario), updater.updateValue(saida), updater.updateValue(diario)]);
+
+      assert.equal(await readStored(diario), 'R$ 20,00');
+      assert.equal(await readStored(saida), 'R$ 5,00');
+    });
+  });
+}
+
+describe('SheetUpdater (planilha)', () => {
+  it('cria a aba do ano a partir do modelo', async () => {
+    const { fake } = await createTestUpdater();
+    const titles = (await fake.listSheets()).map((sheet) => sheet.title);
+    const year = String(todayRequest().year);
+
+    assert.ok(titles.includes('Modelo'));
+    assert.ok(titles.includes(year));
+  });
+
+  it('informa a célula gravada', async () => {
+    const { updater } = await createTestUpdater();
+    const request = todayRequest({ value: 10 });
+
+    const result = await updater.updateValue(request);
+
+    assert.equal(result.details?.column, cellOf(request));
+  });
+
+  it('não escreve nada com data inválida', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const writes = fake.countCalls('writeCell');
+
+    await updater.updateValue(todayRequest({ value: 10, day: 30, month: 2, year: 2026 }));
+
+    assert.equal(fake.countCalls('writeCell'), writes);
+  });
+
+  it('grava o texto do chat no livro como texto, não como fórmula', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const formula = '=HYPERLINK("https://exemplo.com";"clique")';
+    const request = todayRequest({ value: 10, description: formula, rawText: `diario 10 ${formula}` });
+
+    await updater.updateValue(request);
+
+    const [total] = await updater.getCategoryTotals(request.month, request.year);
+    assert.equal(total.entries[0].description, formula);
+    assert.equal(total.entries[0].rawText, `diario 10 ${formula}`);
+    assert.ok(!fake.getRawValue("'Lançamentos'!I2")?.startsWith('='));
+  });
+
+  it('grava várias linhas com uma leitura e uma escrita', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const diario = todayRequest({ value: 45 });
+    const saida = todayRequest({ type: 'saida', value: 120 });
+    const reads = fake.countCalls('batchRead');
+    const writes = fake.countCalls('batchWrite');
+
+    await updater.updateValues([diario, saida, { ...diario, value: 5 }]);
+
+    assert.equal(fake.countCalls('batchRead') - reads, 1);
+    assert.equal(fake.countCalls('batchWrite') - writes, 1);
+    assert.equal(fake.countCalls('writeCell'), 0);
+  });
+
+  it('coloca todas as linhas na fila se a planilha estiver fora', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const request = todayRequest({ value: 20 });
+
+    fake.offline = true;
+    const responses = await updater.updateValues([request, { ...request, type: 'saida' }]);
+
+    assert.deepEqual(
+      responses.map((response) => response.queued),
+      [true, true]
+    );
+
+    fake.offline = false;
+    assert.equal(await updater.syncPending(), 2);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 20,00');
+  });
+
+  it('com SHEETS_FORMULA_WRITES soma como fórmula', async () => {
+    process.env.SHEETS_FORMULA_WRITES = 'true';
+    try {
+      const { updater, fake } = await createTestUpdater();
+      const request = todayRequest({ value: 20 });
+
+      await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 12.5 });
+      await updater.updateValue({ ...request, value: 7.5 });
+
+      assert.equal(fake.getRawValue(cellOf(request)), '=20+12,50+7,50');
+      assert.equal(await fake.readCell(cellOf(request)), 'R$ 40,00');
+
+      await updater.undoLast(request.chatId);
+      assert.equal(fake.getRawValue(cellOf(request)), '=20+12,50');
+      assert.equal(await fake.readCell(cellOf(request)), 'R$ 32,50');
+    } finally {
+      delete process.env.SHEETS_FORMULA_WRITES;
+    }
+  });
+
+  it('com SHEETS_FORMULA_WRITES desfaz só a parcela, mesmo com somas de outros depois', async () => {
+    process.env.SHEETS_FORMULA_WRITES = 'true';
+    try {
+      const { updater, fake } = await createTestUpdater();
+      const request = todayRequest({ value: 20 });
+
+      await updater.updateValue(request);
+      await updater.updateValue({ ...request, value: 12.5 });
+      await updater.updateValue({ ...request, value: 7.5, chatId: 'outro-chat' });
+      await updater.undoLast(request.chatId);
+
+      assert.equal(fake.getRawValue(cellOf(request)), '=20+7,50');
+      assert.equal(await fake.readCell(cellOf(request)), 'R$ 27,50');
+    } finally {
+      delete process.env.SHEETS_FORMULA_WRITES;
+    }
+  });
+
+  it('guarda o histórico de desfazer em disco', async () => {
+    const { updater } = await createTestUpdater();
+    const request = todayRequest({ value: 20, chatId: 'chat-historico' });
+
+    await updater.updateValue(request);
+
+    const saved: Record<string, CellChange[]> = JSON.parse(
+      readFileSync(join(process.env.DATA_DIR!, 'undo-history.json'), 'utf-8')
+    );
+    const history = Object.entries(saved).find(([key]) => key.endsWith('|chat-historico'))?.[1];
+    assert.equal(history?.length, 1);
+    assert.equal(history?.[0].request.value, 20);
+  });
+});
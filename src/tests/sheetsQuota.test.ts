@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GridCache } from '../sheets/gridCache';
+import { TokenBucket } from '../utils/tokenBucket';
+
+describe('TokenBucket', () => {
+  it('libera a rajada inicial e espaça as demais requisições', async () => {
+    const bucket = new TokenBucket(2, 20); // 2 de uma vez, depois uma a cada 50ms
+    const startedAt = Date.now();
+    const releasedAt: number[] = [];
+
+    await Promise.all(
+      [0, 1, 2, 3].map(() => bucket.take().then(() => releasedAt.push(Date.now() - startedAt)))
+    );
+
+    assert.ok(releasedAt[1] < 30);
+    assert.ok(releasedAt[2] >= 40);
+    assert.ok(releasedAt[3] >= 90);
+    assert.equal(bucket.pending, 0);
+  });
+});
+
+describe('GridCache', () => {
+  it('compartilha leituras simultâneas e guarda o resultado', async () => {
+    const cache = new GridCache<number>(60);
+    let loads = 0;
+    const load = async () => ++loads;
+
+    const [first, second] = await Promise.all([cache.get(10, 2026, load), cache.get(10, 2026, load)]);
+    assert.equal(first, 1);
+    assert.equal(second, 1);
+    assert.equal(await cache.get(10, 2026, load), 1);
+    assert.equal(await cache.get(11, 2026, load), 2);
+  });
+
+  it('descarta leituras que terminaram depois de uma escrita', async () => {
+    const cache = new GridCache<string>(60);
+    let release: (value: string) => void = () => undefined;
+
+    const stale = cache.get(10, 2026, () => new Promise((resolve) => (release = resolve)));
+    cache.invalidate(10, 2026);
+    release('antes da escrita');
+    assert.equal(await stale, 'antes da escrita');
+
+    assert.equal(await cache.get(10, 2026, async () => 'depois da escrita'), 'depois da escrita');
+  });
+
+  it('não guarda nada com TTL 0', async () => {
+    const cache = new GridCache<number>(0);
+    let loads = 0;
+
+    await cache.get(10, 2026, async () => ++loads);
+    await cache.get(10, 2026, async () => ++loads);
+    assert.equal(loads, 2);
+  });
+});
@@ -15,7 +15,7 @@ async function testAIService() {
 	console.log('1️⃣ Status da IA:', aiService.isActive() ? '✅ Ativa' : '❌ Inativa');
 
 	if (!aiService.isActive()) {
-		console.log('\n⚠️  Configure OPENAI_API_KEY no .env para testar a IA');
+		console.log('\n⚠️  Configure LLM_PROVIDER (ou GEMINI_API_KEY) no .env para testar a IA');
 		return;
 	}
 
@@ -29,7 +29,9 @@ async function testAIService() {
 	const testMessages = [
 		'oi',
 		'gastei 50 reais hoje',
+		'paguei 120 de luz ontem e recebi 300 de um freela',
 		'como economizar dinheiro?',
+		'qual foi meu pior dia do mês?',
 		'obrigado pela ajuda',
 	];
 
@@ -39,7 +41,11 @@ async function testAIService() {
 
 		try {
 			const response = await aiService.generateResponse(message, 'test-chat');
-			console.log(`🤖 Bot: ${response}`);
+			if (response.intents.length > 0) {
+				console.log('🤖 Registros:', response.intents);
+			} else {
+				console.log(`🤖 Bot: ${response.text}`);
+			}
 		} catch (error) {
 			console.error('❌ Erro:', error);
 		}
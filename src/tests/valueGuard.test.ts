@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValueGuard } from '../bot/valueGuard';
+import { createTestUpdater, todayRequest } from './helpers';
+
+describe('ValueGuard', () => {
+  it('compara o lançamento com a média de um dia do tipo', async () => {
+    const { updater } = await createTestUpdater();
+    const today = todayRequest();
+    const lastMonth = new Date(today.year, today.month - 2, 1);
+    const month = lastMonth.getMonth() + 1;
+    const year = lastMonth.getFullYear();
+
+    // 20 dias de R$ 20,00 no mês anterior: média de R$ 20,00 por dia
+    for (let day = 1; day <= 20; day++) {
+      await updater.updateValue(todayRequest({ value: 20, day, month, year }));
+    }
+
+    const guard = new ValueGuard();
+    assert.equal(await guard.check(todayRequest({ value: 60 }), updater), null);
+    assert.match((await guard.check(todayRequest({ value: 150 }), updater)) || '', /7,5x a média por dia/);
+  });
+
+  it('pede confirmação acima do limite do tipo', async () => {
+    const { updater } = await createTestUpdater();
+    const reason = await new ValueGuard().check(todayRequest({ type: 'entrada', value: 35291 }), updater);
+    assert.match(reason || '', /Acima do limite/);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PendingWrite } from '../types';
+import { cellOf, createTestUpdater, todayRequest } from './helpers';
+
+describe('Fila de escritas', () => {
+  it('guarda o valor quando a planilha está fora e avisa o usuário', async () => {
+    const { updater, fake } = await createTestUpdater();
+    fake.offline = true;
+
+    const result = await updater.updateValue(todayRequest({ value: 45, description: 'mercado' }));
+
+    assert.equal(result.success, true);
+    assert.equal(result.queued, true);
+    assert.match(result.message, /registrado, será sincronizado/);
+    assert.match(updater.getPendingReport(), /1\. 🍽️ \+ R\$\s45,00 em .* — mercado/);
+  });
+
+  it('persiste a fila em disco', async () => {
+    const { updater, fake } = await createTestUpdater();
+    fake.offline = true;
+    await updater.updateValue(todayRequest({ value: 12.5 }));
+
+    const saved: Record<string, PendingWrite[]> = JSON.parse(
+      readFileSync(join(process.env.DATA_DIR!, 'pending-writes.json'), 'utf-8')
+    );
+    const values = Object.values(saved).flatMap((writes) => writes.map((write) => write.request.value));
+    assert.ok(values.includes(12.5));
+  });
+
+  it('sincroniza em ordem, mantendo somar e substituir', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const request = todayRequest({ value: 10 });
+    await updater.updateValue(request);
+
+    fake.offline = true;
+    await updater.updateValue({ ...request, value: 5 });
+    await updater.updateValue({ ...request, value: 100, shouldReplace: true });
+    await updater.updateValue({ ...request, value: 1 });
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 10,00');
+
+    // Ainda fora: nada é gravado e as tentativas ficam registradas
+    // (cada valor novo também tenta esvaziar a fila antes)
+    assert.equal(await updater.syncPending(), 0);
+    assert.match(updater.getPendingReport(), /3 tentativa\(s\)/);
+
+    fake.offline = false;
+    assert.equal(await updater.syncPending(), 3);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 101,00');
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+  });
+
+  it('um valor novo grava antes os pendentes, se a planilha já voltou', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const request = todayRequest({ type: 'saida', value: 50 });
+
+    fake.offline = true;
+    await updater.updateValue({ ...request, shouldReplace: true });
+
+    // Ainda fora: o novo valor entra depois do anterior
+    const queued = await updater.updateValue({ ...request, value: 7 });
+    assert.equal(queued.queued, true);
+    assert.equal(fake.getRawValue(cellOf(request)), null);
+
+    // A planilha volta: o próximo valor não espera a próxima tentativa agendada
+    fake.offline = false;
+    const result = await updater.updateValue({ ...request, value: 3 });
+    assert.equal(result.queued, undefined);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 60,00');
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+  });
+
+  it('não coloca na fila erros que não passam sozinhos', async () => {
+    const { updater, fake } = await createTestUpdater();
+    fake.offline = true;
+    fake.errorStatus = 403;
+
+    const result = await updater.updateValue(todayRequest({ value: 45 }));
+
+    assert.equal(result.success, false);
+    assert.equal(result.queued, undefined);
+    assert.match(result.message, /recusou o valor/);
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+  });
+
+  it('descarta da fila um valor que a planilha recusa', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const request = todayRequest({ value: 45 });
+
+    fake.offline = true;
+    await updater.updateValue(request);
+
+    fake.errorStatus = 404;
+    assert.equal(await updater.syncPending(), 0);
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+
+    fake.offline = false;
+    assert.equal(fake.getRawValue(cellOf(request)), null);
+  });
+
+  it('desfazer remove primeiro o valor que ainda está na fila', async () => {
+    const { updater, fake } = await createTestUpdater();
+    const request = todayRequest({ value: 30 });
+    await updater.updateValue(request);
+
+    fake.offline = true;
+    await updater.updateValue({ ...request, value: 20 });
+    const undo = await updater.undoLast(request.chatId);
+
+    assert.match(undo, /removida da fila/);
+    assert.match(updater.getPendingReport(), /Nenhum valor pendente/);
+
+    fake.offline = false;
+    assert.equal(await updater.syncPending(), 0);
+    assert.equal(fake.getRawValue(cellOf(request)), 'R$ 30,00');
+  });
+});
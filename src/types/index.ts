@@ -15,17 +15,44 @@ export interface ParsedMessage {
 		| 'performance'
 		| 'comparar'
 		| 'previsao'
+		| 'desfazer'
+		| 'esquecer'
+		| 'planilha'
+		| 'configurar_planilha'
+		| 'categorias'
+		| 'orcamento'
+		| 'orcamentos'
+		| 'recorrente'
+		| 'recorrentes'
+		| 'cancelar_recorrente'
+		| 'pendentes'
 		| 'ajuda';
-	value?: number; // Opcional para comandos de consulta
+	value?: number; // Opcional para comandos de consulta (em "desfazer", é o número de passos)
 	date: Date;
 	rawText: string;
 	shouldReplace?: boolean; // true para substituir, false (padrão) para somar
-	targetDate?: Date; // Para comandos como "saldo 16/12"
+	targetDate?: Date; // Para comandos como "saldo 16/12" ou "categorias 11/2025"
+	invalidDate?: boolean; // Data digitada que não existe (ex: "categorias 13/2025")
+	description?: string; // Texto livre após o valor (ex: "mercado")
+	category?: string; // Categoria associada à descrição (ex: "alimentação")
+	target?: string; // Alvo do orçamento ('diario', 'saida' ou categoria) ou link/ID em "planilha"
+	entryType?: 'entrada' | 'saida' | 'diario'; // Tipo do lançamento recorrente
+	dueDay?: number; // Dia do mês do lançamento recorrente
+	expression?: string; // Conta que gerou o valor (ex: "12 + 8,50 + 30"), se houver
+}
+
+/**
+ * Linha de uma mensagem com vários comandos (parsed null: não reconhecida)
+ */
+export interface BatchLine {
+	line: string;
+	parsed: ParsedMessage | null;
 }
 
 export interface SheetConfig {
 	month: number; // 1-12
 	year: number;
+	sheetName: string; // Aba do ano (ex: "2026")
 	startRow: number;
 	endRow: number;
 	columnOffset: number; // Deslocamento para a direita (0 para janeiro, offset para outros meses)
@@ -39,6 +66,29 @@ export interface SheetColumns {
 	saldo: string; // Coluna F
 }
 
+/**
+ * Células com os totais do mês (em A1, no bloco de janeiro)
+ */
+export interface SheetTotalCells {
+	entrada: string; // C40
+	saida: string; // D40
+	diario: string; // E40
+	saidaTotal: string; // B43 (Saídas + Diário)
+	performance: string; // E43 (Entradas - Saída Total)
+}
+
+/**
+ * Layout da grade de uma aba anual (ver SHEET_LAYOUT_FILE)
+ * Colunas e totais são descritos no bloco de janeiro; os outros meses
+ * ficam monthBlockWidth colunas à direita do mês anterior
+ */
+export interface SheetLayoutDescriptor {
+	firstDayRow: number; // Linha do dia 1 (os dias seguem em linhas consecutivas)
+	monthBlockWidth: number; // Colunas ocupadas por mês (incluindo separadores)
+	columns: SheetColumns;
+	totals: SheetTotalCells;
+}
+
 export interface UpdateRequest {
 	type: 'entrada' | 'saida' | 'diario';
 	value: number;
@@ -46,11 +96,56 @@ export interface UpdateRequest {
 	month: number;
 	year: number;
 	shouldReplace?: boolean; // true para substituir, false (padrão) para somar
+	chatId?: string; // Chat de origem (para o livro de lançamentos)
+	sender?: string; // Autor da mensagem (em grupos, o participante)
+	rawText?: string; // Mensagem original
+	description?: string; // Descrição livre do lançamento
+	expression?: string; // Conta digitada (ex: "3 × 49,90"), mostrada na confirmação
+	category?: string; // Categoria do lançamento
+}
+
+/**
+ * Linha do livro de lançamentos (aba com cada registro individual)
+ */
+export interface LedgerEntry {
+	recordedAt: Date;
+	chatId: string;
+	sender: string;
+	type: 'entrada' | 'saida' | 'diario';
+	value: number;
+	day: number;
+	month: number;
+	year: number;
+	rawText: string;
+	shouldReplace: boolean;
+	description: string;
+	category: string;
+}
+
+/**
+ * Alteração feita em uma célula da grade (usada para desfazer)
+ */
+export interface CellChange {
+	cellRange: string; // Posição do valor (ex: "'2026'!H12"), apenas para exibição
+	previousValue: string | null; // Conteúdo da célula antes da escrita
+	writtenValue: string; // Valor escrito pelo bot (com fórmulas, o total resultante)
+	request: UpdateRequest;
+}
+
+/**
+ * Escrita que falhou e aguarda na fila para ser refeita (data/pending-writes.json)
+ */
+export interface PendingWrite {
+	request: UpdateRequest;
+	queuedAt: string; // ISO
+	attempts: number; // Tentativas de sincronizar que falharam
+	lastError?: string;
 }
 
 export interface BotResponse {
 	success: boolean;
 	message: string;
+	queued?: boolean; // true se o valor ficou na fila para ser sincronizado depois
 	details?: {
 		type: string;
 		value: string;
@@ -90,12 +185,85 @@ export interface MonthSummary {
 	mediaDiaria: number;
 }
 
+/**
+ * Totais do mês como ficam na grade (linhas 40 e 43 no layout padrão)
+ */
+export interface MonthGridTotals {
+	entrada: number;
+	saida: number;
+	diario: number;
+	saidaTotal: number; // Saídas + Diário
+	performance: number; // Entradas - Saída Total
+}
+
+/**
+ * Total de gastos de uma categoria no mês
+ */
+export interface CategoryTotal {
+	category: string;
+	total: number;
+	count: number;
+	entries: LedgerEntry[];
+}
+
+/**
+ * Orçamento mensal de um chat
+ * target: 'diario', 'saida' ou o nome de uma categoria (ex: 'alimentação')
+ */
+export interface Budget {
+	target: string;
+	limit: number;
+}
+
+/**
+ * Lançamento recorrente (contas fixas, salário)
+ */
+export interface RecurringRule {
+	type: 'entrada' | 'saida' | 'diario';
+	value: number;
+	dueDay: number; // 1-31 (ajustado para o último dia em meses mais curtos)
+	description: string;
+	category: string;
+	createdAt: string; // dd/mm/aaaa
+	lastApplied: string | null; // Último mês aplicado (aaaa-mm)
+}
+
+/**
+ * Dados lidos da foto de um cupom/nota fiscal
+ */
+export interface ReceiptData {
+	isReceipt: boolean; // false se a imagem não parece um cupom
+	total?: number;
+	date?: Date;
+	merchant?: string;
+	qrCodeText?: string; // Conteúdo do QR code da NFC-e, se legível
+	rawText?: string; // Texto reconhecido (pode conter a chave de acesso)
+}
+
+/**
+ * Registro extraído pela IA de uma frase em linguagem natural
+ */
+export interface FinanceIntent {
+	type: string; // Esperado: 'entrada' | 'saida' | 'diario' (validado pelo MessageParser)
+	value: number;
+	date?: string; // "hoje", "ontem", "amanha" ou "dd/mm/aaaa"
+	description?: string;
+}
+
+/**
+ * Resposta da IA: texto livre e/ou registros a executar
+ */
+export interface AIReply {
+	text: string;
+	intents: FinanceIntent[];
+}
+
 /**
  * Estatísticas do serviço de IA
  */
 export interface AIStats {
 	isEnabled: boolean;
-	provider: 'gemini';
+	provider: string; // gemini, openai, ollama, llamacpp, fake ou none
 	activeConversations: number;
 	model: string;
 }
@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Categoria de gasto e as palavras que a identificam
+ */
+export interface CategoryDefinition {
+  name: string;
+  synonyms: string[];
+}
+
+/**
+ * Categorias padrão (podem ser substituídas via CATEGORIES_FILE)
+ */
+const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    name: 'alimentação',
+    synonyms: ['mercado', 'supermercado', 'ifood', 'restaurante', 'lanche', 'padaria', 'almoco', 'jantar', 'comida', 'feira', 'acougue'],
+  },
+  {
+    name: 'transporte',
+    synonyms: ['uber', '99', 'gasolina', 'combustivel', 'onibus', 'metro', 'estacionamento', 'pedagio'],
+  },
+  {
+    name: 'moradia',
+    synonyms: ['aluguel', 'condominio', 'luz', 'energia', 'agua', 'gas', 'internet', 'iptu'],
+  },
+  {
+    name: 'saúde',
+    synonyms: ['farmacia', 'remedio', 'medico', 'consulta', 'dentista', 'exame', 'plano de saude'],
+  },
+  {
+    name: 'lazer',
+    synonyms: ['cinema', 'bar', 'show', 'viagem', 'netflix', 'spotify', 'streaming'],
+  },
+  {
+    name: 'educação',
+    synonyms: ['escola', 'curso', 'livro', 'faculdade', 'mensalidade'],
+  },
+  {
+    name: 'compras',
+    synonyms: ['roupa', 'shopping', 'presente', 'amazon', 'loja'],
+  },
+  {
+    name: 'salário',
+    synonyms: ['salario', 'pagamento', 'freela', 'bonus'],
+  },
+];
+
+/**
+ * Associa descrições livres ("ifood", "conta de luz") a categorias
+ */
+export class CategoryMatcher {
+  private static categories: CategoryDefinition[] | null = null;
+
+  /**
+   * Remove acentos e padroniza para comparação
+   */
+  static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim();
+  }
+
+  /**
+   * Carrega as categorias do arquivo configurado ou usa as padrão
+   * Formato do arquivo: [{ "name": "pets", "synonyms": ["racao", "veterinario"] }]
+   */
+  static getCategories(): CategoryDefinition[] {
+    if (this.categories) {
+      return this.categories;
+    }
+
+    const file = process.env.CATEGORIES_FILE;
+    if (file) {
+      try {
+        const content = JSON.parse(readFileSync(resolve(file), 'utf-8'));
+        if (!Array.isArray(content)) {
+          throw new Error('o arquivo deve conter uma lista de categorias');
+        }
+
+        this.categories = content.map((category: CategoryDefinition) => ({
+          name: String(category.name),
+          synonyms: Array.isArray(category.synonyms) ? category.synonyms.map(String) : [],
+        }));
+        return this.categories;
+      } catch (error) {
+        console.error(`⚠️  Erro ao carregar categorias de ${file}, usando padrão:`, error);
+      }
+    }
+
+    this.categories = DEFAULT_CATEGORIES;
+    return this.categories;
+  }
+
+  /**
+   * Retorna a categoria correspondente à descrição, ou undefined se nenhuma bater
+   * Compara palavras inteiras (e expressões com mais de uma palavra)
+   */
+  static match(description: string): string | undefined {
+    const normalized = ` ${this.normalize(description).replace(/[^a-z0-9]+/g, ' ')} `;
+
+    for (const category of this.getCategories()) {
+      const terms = [category.name, ...category.synonyms].map((term) => this.normalize(term));
+      if (terms.some((term) => term && normalized.includes(` ${term} `))) {
+        return category.name;
+      }
+    }
+
+    return undefined;
+  }
+}
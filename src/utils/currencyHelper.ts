@@ -0,0 +1,39 @@
+/**
+ * Funções auxiliares para valores monetários (formato brasileiro)
+ */
+
+export class CurrencyHelper {
+  /**
+   * Converte valor da planilha (ex: "R$ 1.234,56") para número
+   */
+  static parse(cellValue: string | null): number {
+    if (!cellValue || cellValue.trim() === '') return 0;
+
+    // Remove "R$", espaços e converte vírgula para ponto
+    const cleaned = cellValue
+      .replace(/R\$\s*/g, '')
+      .replace(/\./g, '') // Remove separadores de milhar
+      .replace(/,/g, '.') // Converte decimal
+      .trim();
+
+    const value = parseFloat(cleaned);
+    return isNaN(value) ? 0 : value;
+  }
+
+  /**
+   * Formata valor para exibição (ex: 1234.56 → "R$ 1.234,56")
+   */
+  static format(value: number): string {
+    return value.toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  }
+
+  /**
+   * Formata valor para escrita na célula (ex: 1234.56 → "R$ 1234,56")
+   */
+  static toCell(value: number): string {
+    return `R$ ${value.toFixed(2).replace('.', ',')}`;
+  }
+}
@@ -72,6 +72,16 @@ export class DateHelper {
     return `${day}/${month}/${year}`;
   }
 
+  /**
+   * Formata data e hora para exibição (dd/mm/aaaa HH:MM:SS)
+   */
+  static formatDateTime(date: Date): string {
+    const hours = date.getHours().toString().padStart(2, '0');
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    const seconds = date.getSeconds().toString().padStart(2, '0');
+    return `${this.formatDate(date)} ${hours}:${minutes}:${seconds}`;
+  }
+
   /**
    * Retorna o mês (1-12) de uma data
    */
@@ -0,0 +1,66 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Armazenamento simples em arquivo JSON (pasta data/ ou DATA_DIR)
+ * Usado para dados pequenos que precisam sobreviver a reinícios do bot
+ */
+export class JsonStore<T> {
+	private readonly filePath: string;
+	private readonly defaultValue: T;
+	private cache: T | null = null;
+
+	constructor(fileName: string, defaultValue: T) {
+		const dataDir = process.env.DATA_DIR
+			? resolve(process.env.DATA_DIR)
+			: resolve(__dirname, '../../data');
+		this.filePath = resolve(dataDir, fileName);
+		this.defaultValue = defaultValue;
+	}
+
+	/**
+	 * Lê os dados (do cache em memória após a primeira leitura)
+	 */
+	read(): T {
+		if (this.cache !== null) {
+			return this.cache;
+		}
+
+		try {
+			if (existsSync(this.filePath)) {
+				this.cache = JSON.parse(readFileSync(this.filePath, 'utf-8')) as T;
+				return this.cache;
+			}
+		} catch (error) {
+			console.error(`⚠️  Erro ao ler ${this.filePath}, usando valor padrão:`, error);
+		}
+
+		this.cache = JSON.parse(JSON.stringify(this.defaultValue)) as T;
+		return this.cache;
+	}
+
+	/**
+	 * Grava os dados (escreve em arquivo temporário e renomeia para não corromper)
+	 */
+	write(data: T): void {
+		this.cache = data;
+
+		mkdirSync(dirname(this.filePath), { recursive: true });
+		const tempPath = `${this.filePath}.tmp`;
+		writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+		renameSync(tempPath, this.filePath);
+	}
+
+	/**
+	 * Altera os dados e grava em seguida
+	 */
+	update(change: (data: T) => void): T {
+		const data = this.read();
+		change(data);
+		this.write(data);
+		return data;
+	}
+}
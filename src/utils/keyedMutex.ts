@@ -0,0 +1,37 @@
+/**
+ * Fila de execução por chave: tarefas com a mesma chave rodam uma de cada vez,
+ * na ordem em que chegaram; chaves diferentes rodam em paralelo
+ *
+ * Usada para que duas mensagens somando na mesma célula não leiam o mesmo
+ * valor antigo (uma das somas se perderia).
+ */
+export class KeyedMutex {
+	private tails: Map<string, Promise<void>> = new Map();
+
+	async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+		const previous = this.tails.get(key) || Promise.resolve();
+
+		let release: () => void = () => undefined;
+		const current = new Promise<void>((resolve) => (release = resolve));
+		const tail = previous.then(() => current);
+		this.tails.set(key, tail);
+
+		await previous;
+		try {
+			return await task();
+		} finally {
+			release();
+			// Última da fila: libera a chave
+			if (this.tails.get(key) === tail) {
+				this.tails.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Chaves com tarefas rodando ou esperando
+	 */
+	get size(): number {
+		return this.tails.size;
+	}
+}
@@ -1,5 +1,13 @@
-import { ParsedMessage } from '../types';
+import { BatchLine, FinanceIntent, ParsedMessage } from '../types';
 import { DateHelper } from './dateHelper';
+import { CategoryMatcher } from './categoryMatcher';
+
+// Valor: "R$" opcional, separadores de milhar/decimal e sufixo "k" ou "mil"
+// (ex: "87,10", "R$ 1.234,56", "1,2k", "2 mil")
+const AMOUNT_PATTERN = String.raw`(?:r\$\s*)?\d+(?:[.,]\d+)*(?:\s?(?:k|mil)\b)?`;
+
+// Conta com somas e multiplicações (ex: "12+8,50+30", "3x 49,90")
+const EXPRESSION_PATTERN = String.raw`${AMOUNT_PATTERN}(?:\s*[+x*×]\s*${AMOUNT_PATTERN})*`;
 
 /**
  * Parser inteligente de mensagens do WhatsApp
@@ -7,30 +15,65 @@ import { DateHelper } from './dateHelper';
  */
 export class MessageParser {
   /**
-   * Normaliza valor monetário brasileiro para número
-   * Converte "87,10" ou "87.10" para 87.10
+   * Normaliza valor monetário para número
+   * - "87,10" ou "87.10" → 87.10
+   * - "1.234,56" ou "1,234.56" → 1234.56 (o último separador é o decimal)
+   * - "1.500" ou "1.234.567" → milhar (ponto seguido de 3 dígitos ou repetido)
    */
   private static normalizeValue(value: string): number {
-    // Remove espaços
-    let normalized = value.trim();
-    
-    // Se tem vírgula, substitui por ponto
-    normalized = normalized.replace(',', '.');
-    
-    // Remove pontos que são separadores de milhar (ex: 1.000,00)
-    // Mantém apenas o último ponto como decimal
-    const parts = normalized.split('.');
-    if (parts.length > 2) {
-      normalized = parts.slice(0, -1).join('') + '.' + parts[parts.length - 1];
+    const normalized = value.trim();
+    const lastComma = normalized.lastIndexOf(',');
+    const lastDot = normalized.lastIndexOf('.');
+
+    if (lastComma !== -1 && lastDot !== -1) {
+      const decimal = lastComma > lastDot ? ',' : '.';
+      const thousands = decimal === ',' ? '.' : ',';
+      return parseFloat(normalized.split(thousands).join('').replace(decimal, '.'));
     }
-    
-    return parseFloat(normalized);
+
+    const parts = normalized.split(lastComma !== -1 ? ',' : '.');
+    const isThousands = parts.length > 2 || (lastDot !== -1 && parts.length === 2 && /^\d{3}$/.test(parts[1]));
+
+    return parseFloat(isThousands ? parts.join('') : parts.join('.'));
+  }
+
+  /**
+   * Converte um valor com "R$" e sufixo "k"/"mil" (ex: "R$ 1.234,56", "1,2k" → 1200)
+   */
+  private static parseAmount(amount: string): number {
+    const match = amount.trim().toLowerCase().match(/^(?:r\$\s*)?([\d.,]+)\s?(k|mil)?$/);
+    if (!match) {
+      return NaN;
+    }
+
+    return this.normalizeValue(match[1]) * (match[2] ? 1000 : 1);
+  }
+
+  /**
+   * Calcula uma conta de somas e multiplicações (multiplicação primeiro)
+   * Ex: "12+8,50+30" → 50.5 (expression "12 + 8,50 + 30"), "3x 49,90" → 149.7 (expression "3 × 49,90")
+   * expression só vem preenchido quando há alguma operação
+   */
+  private static evaluateExpression(text: string): { value: number; expression?: string } {
+    const terms = text.split('+').map((term) => term.split(/[x*×]/i).map((factor) => factor.trim()));
+
+    const total = terms.reduce(
+      (sum, factors) => sum + factors.reduce((product, factor) => product * this.parseAmount(factor), 1),
+      0
+    );
+    const value = Math.round(total * 100) / 100;
+
+    const hasOperation = terms.length > 1 || terms[0].length > 1;
+    return {
+      value,
+      expression: hasOperation ? terms.map((factors) => factors.join(' × ')).join(' + ') : undefined
+    };
   }
 
   /**
    * Detecta o tipo de operação (entrada, saída, diário ou consulta)
    */
-  private static detectType(text: string): 'entrada' | 'saida' | 'diario' | 'saldo' | 'resumo' | 'hoje' | 'semana' | 'mes' | 'performance' | 'comparar' | 'previsao' | 'ajuda' | null {
+  private static detectType(text: string): ParsedMessage['type'] | null {
     const lower = text.toLowerCase();
     
     // Remove "sub" do texto para análise (será tratado separadamente)
@@ -38,7 +81,34 @@ export class MessageParser {
     
     // Comando de ajuda
     if (cleanText.match(/^(ajuda|help|\?)$/)) return 'ajuda';
+
+    // Desfazer últimos registros (ex: "desfazer" ou "desfazer 3")
+    if (cleanText.match(/^(desfazer|undo)(\s+\d+)?$/)) return 'desfazer';
+
+    // Gera a grade modelo na planilha do chat (admin)
+    if (cleanText.match(/^configurar\s+planilha$/)) return 'configurar_planilha';
+
+    // Planilha do chat (ex: "planilha", "planilha https://docs.google.com/...", "planilha padrao")
+    if (cleanText.match(/^planilha(\s+\S+)?$/)) return 'planilha';
+
+    // Valores aguardando sincronização com a planilha (ex: "pendentes", "fila")
+    if (cleanText.match(/^(pendentes|pendente|fila)$/)) return 'pendentes';
+
+    // Apagar a memória da conversa com a IA (ex: "esquecer", "esquece tudo")
+    if (cleanText.match(/^(esquecer|esquece|esqueça)(\s+(tudo|conversa))?$/)) return 'esquecer';
     
+    // Lançamentos recorrentes (ex: "recorrente saida 1200 aluguel dia 5", "recorrentes")
+    if (cleanText.match(/^recorrentes$/)) return 'recorrentes';
+    if (cleanText.match(/^cancelar\s+recorrente\s+\d+$/)) return 'cancelar_recorrente';
+    if (cleanText.match(/^recorrente\s+.+\s+dia\s+\d{1,2}$/)) return 'recorrente';
+
+    // Orçamentos (ex: "orcamento diario 1500", "orcamento mercado 800", "orcamentos")
+    if (cleanText.match(/^(orcamentos|orçamentos|orcamento|orçamento)$/)) return 'orcamentos';
+    if (cleanText.match(/^(orcamento|orçamento)\s+.+\s+\d+([.,]\d+)*$/)) return 'orcamento';
+
+    // Relatório por categoria (ex: "categorias", "gastos por categoria", "categorias 11/2025")
+    if (cleanText.match(/^(categorias|gastos por categoria)(\s+\d{1,2}\/\d{2,4})?$/)) return 'categorias';
+
     // Novos comandos especiais
     if (cleanText.match(/^(performance|desempenho)$/)) return 'performance';
     if (cleanText.match(/^(comparar|comparacao|comparação)$/)) return 'comparar';
@@ -57,17 +127,39 @@ export class MessageParser {
     if (cleanText.match(/^(saldo|resumo|extrato)?\s*(semana|semanal)$/)) return 'semana';
     if (cleanText.match(/^(saldo|resumo|extrato)?\s*(mes|mês|mensal)$/)) return 'mes';
     
-    // Comandos de atualização (com valor)
-    if (cleanText.includes('entrada')) return 'entrada';
-    if (cleanText.includes('saida') || cleanText.includes('saída')) return 'saida';
+    // Comandos de atualização (tipo na primeira palavra)
+    if (/^(diario|diário)\b/.test(cleanText)) return 'diario';
+    if (/^entrada\b/.test(cleanText)) return 'entrada';
+    if (/^(saida|saída)(\s|$)/.test(cleanText)) return 'saida';
     
-    // Se tem só número, é diário
-    if (/^\d+([,.]\d{1,2})?\s*(hoje|amanha|amanhã|\d{1,2}\/\d{1,2})?$/.test(cleanText)) return 'diario';
+    // Se começa com valor e o resto é uma descrição curta ou data, é diário
+    // (ex: "517", "35 amanha", "45 mercado", "12+8,50", "R$ 1.500")
+    // Frases mais longas ("2 perguntas sobre meu saldo") ficam para a IA
+    const valueMatch = cleanText.match(new RegExp(`^${EXPRESSION_PATTERN}(?:\\s+(.+))?$`));
+    if (valueMatch && this.isShortDescription(valueMatch[1] || '')) return 'diario';
     
     // Não reconhecido
     return null;
   }
 
+  /**
+   * Texto após o valor em um diário sem tipo: até 3 palavras além da data,
+   * sem pergunta e sem outro tipo (ex: "45 entrada do show" não é diário)
+   */
+  private static isShortDescription(text: string): boolean {
+    if (text.includes('?') || /\b(entrada|saida|saída|diario|diário)\b/.test(text)) {
+      return false;
+    }
+
+    const words = text
+      .replace(/\b(hoje|hj|ontem|amanha|amanhã)\b/g, '')
+      .replace(/\d{1,2}\/\d{1,2}(?:\/\d{2,4})?/g, '')
+      .split(/\s+/)
+      .filter((word) => word.length > 0);
+
+    return words.length <= 3;
+  }
+
   /**
    * Detecta se o comando é de substituição (começa com "sub")
    */
@@ -95,9 +187,9 @@ export class MessageParser {
   }
 
   /**
-   * Extrai o valor numérico da mensagem
+   * Extrai o valor da mensagem (número ou conta, ex: "12+8,50+30", "3x 49,90")
    */
-  private static extractValue(text: string): number | null {
+  private static extractValue(text: string): { value: number; expression?: string } | null {
     // Remove palavras-chave
     let cleanText = text
       .toLowerCase()
@@ -107,16 +199,48 @@ export class MessageParser {
     // Remove datas no formato dd/mm ou dd/mm/aaaa
     cleanText = cleanText.replace(/\d{1,2}\/\d{1,2}(?:\/\d{2,4})?/g, '').trim();
 
-    // Procura por número (pode ter vírgula ou ponto)
-    const match = cleanText.match(/[\d]+[,.]?[\d]*/);
-    
+    // Procura pelo valor ou conta (pode ter vírgula, ponto, "R$" e "k"/"mil")
+    const match = cleanText.match(new RegExp(EXPRESSION_PATTERN));
+
     if (match) {
-      return this.normalizeValue(match[0]);
+      return this.evaluateExpression(match[0]);
     }
 
     return null;
   }
 
+  /**
+   * Extrai a descrição livre da mensagem (o que sobra após tipo, valor e data)
+   * Ex: "diario 45 mercado" → "mercado", "saida 120 conta de luz ontem" → "conta de luz"
+   */
+  private static extractDescription(text: string): string | undefined {
+    const description = text
+      .replace(/^(entrada|saida|saída|diario|diário)\s*/i, '')
+      .replace(/\b(hoje|ontem|amanha|amanhã)\b/gi, '')
+      .replace(/\d{1,2}\/\d{1,2}(?:\/\d{2,4})?/g, '')
+      .replace(new RegExp(EXPRESSION_PATTERN, 'i'), '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      // Remove preposições soltas no início (ex: "no mercado" → "mercado")
+      .replace(/^(de|do|da|no|na|em|com|pra|para|-)\s+/i, '')
+      .trim();
+
+    return description || undefined;
+  }
+
+  /**
+   * Converte o alvo do orçamento: "diario"/"saida" ou categoria (via sinônimos)
+   * Ex: "diário" → "diario", "mercado" → "alimentação", "pets" → "pets"
+   */
+  private static resolveBudgetTarget(target: string): string {
+    const normalized = CategoryMatcher.normalize(target);
+
+    if (/^diarios?$/.test(normalized)) return 'diario';
+    if (/^saidas?$/.test(normalized)) return 'saida';
+
+    return CategoryMatcher.match(target) || normalized;
+  }
+
   /**
    * Extrai a data da mensagem
    */
@@ -155,11 +279,16 @@ export class MessageParser {
    * - "diario 87,10" → type: diario, value: 87.10, date: hoje, shouldReplace: false
    * - "300 amanha" → type: diario, value: 300, date: amanhã, shouldReplace: false
    * - "entrada 352,91 01/01" → type: entrada, value: 352.91, date: 01/01, shouldReplace: false
+   * - "diario 45 ifood" → type: diario, value: 45, description: "ifood", category: "alimentação"
    * 
    * Exemplos de substituição:
    * - "sub 300 hoje" → type: diario, value: 300, date: hoje, shouldReplace: true
    * - "sub entrada 500" → type: entrada, value: 500, date: hoje, shouldReplace: true
    * 
+   * Exemplos de desfazer:
+   * - "desfazer" → type: desfazer, value: 1
+   * - "desfazer 3" → type: desfazer, value: 3
+   * 
    * Exemplos de consulta:
    * - "saldo" ou "resumo" → type: hoje, value: undefined, date: hoje
    * - "saldo semana" → type: semana, value: undefined
@@ -195,6 +324,128 @@ export class MessageParser {
       };
     }
 
+    // Se é comando de desfazer, o valor é a quantidade de passos
+    if (type === 'desfazer') {
+      const stepsMatch = cleanMessage.match(/\d+/);
+      return {
+        type: 'desfazer',
+        value: stepsMatch ? parseInt(stepsMatch[0]) : 1,
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed
+      };
+    }
+
+    // Se é comando de planilha, o argumento (link, ID ou "padrao") mantém maiúsculas
+    if (type === 'planilha') {
+      const argument = cleanMessage.replace(/^planilha\s*/i, '').trim();
+      return {
+        type: 'planilha',
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed,
+        target: argument || undefined
+      };
+    }
+
+    if (type === 'configurar_planilha') {
+      return {
+        type: 'configurar_planilha',
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed
+      };
+    }
+
+    if (type === 'esquecer' || type === 'pendentes') {
+      return {
+        type,
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed
+      };
+    }
+
+    // Se é lançamento recorrente, o restante é um registro comum + "dia N"
+    if (type === 'recorrente') {
+      const recurringMatch = cleanMessage.match(/^recorrente\s+(.+)\s+dia\s+(\d{1,2})$/i);
+      const entry = recurringMatch ? this.parse(recurringMatch[1]) : null;
+      const dueDay = recurringMatch ? parseInt(recurringMatch[2]) : 0;
+
+      const isEntry = entry && ['entrada', 'saida', 'diario'].includes(entry.type);
+      if (!entry || !isEntry || dueDay < 1 || dueDay > 31) {
+        return null;
+      }
+
+      return {
+        type: 'recorrente',
+        value: entry.value,
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed,
+        description: entry.description,
+        category: entry.category,
+        entryType: entry.type as 'entrada' | 'saida' | 'diario',
+        dueDay
+      };
+    }
+
+    if (type === 'recorrentes' || type === 'cancelar_recorrente') {
+      const indexMatch = cleanMessage.match(/\d+/);
+      return {
+        type,
+        value: indexMatch ? parseInt(indexMatch[0]) : undefined,
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed
+      };
+    }
+
+    // Se é definição de orçamento, o alvo é o tipo (diario/saida) ou uma categoria
+    if (type === 'orcamento') {
+      const budgetMatch = cleanMessage.match(/^\S+\s+(.+?)\s+(\d+(?:[.,]\d+)*)$/);
+      if (!budgetMatch) {
+        return null;
+      }
+
+      return {
+        type: 'orcamento',
+        value: this.normalizeValue(budgetMatch[2]),
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed,
+        target: this.resolveBudgetTarget(budgetMatch[1])
+      };
+    }
+
+    if (type === 'orcamentos') {
+      return {
+        type: 'orcamentos',
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed
+      };
+    }
+
+    // Se é relatório por categoria, o mês opcional vira targetDate (dia 1)
+    if (type === 'categorias') {
+      const monthMatch = cleanMessage.match(/(\d{1,2})\/(\d{2,4})/);
+      let targetDate: Date | undefined;
+      let invalidDate = false;
+      if (monthMatch) {
+        let year = parseInt(monthMatch[2]);
+        if (year < 100) {
+          year += 2000;
+        }
+        const month = parseInt(monthMatch[1]);
+        if (month >= 1 && month <= 12) {
+          targetDate = new Date(year, month - 1, 1);
+        } else {
+          invalidDate = true;
+        }
+      }
+
+      return {
+        type: 'categorias',
+        date: DateHelper.getBrasiliaTime(),
+        rawText: trimmed,
+        targetDate,
+        invalidDate: invalidDate || undefined
+      };
+    }
+
     // Se é comando de consulta especial (performance, comparar, previsão)
     if (['performance', 'comparar', 'previsao'].includes(type)) {
       return {
@@ -227,23 +478,109 @@ export class MessageParser {
     }
 
     // Para comandos de atualização, extrai o valor
-    const value = this.extractValue(cleanMessage);
-    if (value === null || isNaN(value)) {
+    const amount = this.extractValue(cleanMessage);
+    if (amount === null || isNaN(amount.value)) {
       return null;
     }
 
     // Extrai a data
     const date = this.extractDate(cleanMessage);
 
+    // Extrai a descrição e tenta associar a uma categoria
+    const description = this.extractDescription(cleanMessage);
+    const category = description ? CategoryMatcher.match(description) : undefined;
+
     return {
       type: type as 'entrada' | 'saida' | 'diario',
-      value,
+      value: amount.value,
       date,
       rawText: trimmed,
-      shouldReplace
+      shouldReplace,
+      description,
+      category,
+      expression: amount.expression
+    };
+  }
+
+  /**
+   * Separa uma mensagem com vários comandos (um por linha ou separados por ";")
+   * e faz o parse de cada um. Retorna null se houver um comando só
+   *
+   * Exemplo: "diario 45 mercado\nsaida 120 luz ontem" → 2 linhas (diario 45 e saida 120)
+   */
+  static parseBatch(message: string): BatchLine[] | null {
+    const lines = message
+      .split(/[\n;]/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    if (lines.length < 2) {
+      return null;
+    }
+
+    return lines.map((line) => ({ line, parsed: this.parse(line) }));
+  }
+
+  /**
+   * Converte um registro extraído pela IA em mensagem parseada
+   * Passa pelas mesmas regras do parse (tipo, valor e data) e retorna null
+   * se algum dado for inválido
+   *
+   * Exemplo: { type: 'diario', value: 432, date: 'ontem', description: 'mercado' }
+   * → type: diario, value: 432, date: ontem, description: "mercado", category: "alimentação"
+   */
+  static fromIntent(intent: FinanceIntent): ParsedMessage | null {
+    const type = intent.type.toLowerCase().replace('saída', 'saida').replace('diário', 'diario');
+    if (!['entrada', 'saida', 'diario'].includes(type)) {
+      return null;
+    }
+
+    if (!Number.isFinite(intent.value) || intent.value <= 0) {
+      return null;
+    }
+
+    const date = this.normalizeIntentDate(intent.date);
+    if (date === null) {
+      return null;
+    }
+
+    // A descrição fica fora do texto para não interferir na detecção do tipo
+    const amount = Math.round(intent.value * 100) / 100;
+    const parsed = this.parse(`${type} ${amount.toString().replace('.', ',')} ${date}`.trim());
+    if (!parsed || parsed.type !== type || parsed.value !== amount) {
+      return null;
+    }
+
+    const description = intent.description?.trim() || undefined;
+    return {
+      ...parsed,
+      description,
+      category: description ? CategoryMatcher.match(description) : undefined
     };
   }
 
+  /**
+   * Normaliza a data informada pela IA ("hoje", "ontem", "dd/mm/aaaa" ou "aaaa-mm-dd")
+   * Retorna '' quando não há data (hoje) e null quando o formato é inválido
+   */
+  private static normalizeIntentDate(date?: string): string | null {
+    const value = (date || '').trim().toLowerCase();
+    if (!value || value === 'hoje') return '';
+    if (['ontem', 'amanha', 'amanhã'].includes(value)) return value;
+
+    const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const candidate = isoMatch ? `${isoMatch[3]}/${isoMatch[2]}/${isoMatch[1]}` : value;
+
+    const dateMatch = candidate.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?$/);
+    if (!dateMatch) return null;
+
+    const day = parseInt(dateMatch[1]);
+    const month = parseInt(dateMatch[2]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    return candidate;
+  }
+
   /**
    * Valida se a mensagem é um comando válido
    */
@@ -0,0 +1,66 @@
+/**
+ * Limitador de requisições por balde de fichas (token bucket)
+ *
+ * O balde começa cheio (capacity fichas) e ganha refillPerSecond fichas por
+ * segundo. Cada requisição gasta uma ficha; sem fichas, espera na fila (em
+ * ordem de chegada) até a próxima reposição.
+ */
+export class TokenBucket {
+	private tokens: number;
+	private updatedAt = Date.now();
+	private waiting: (() => void)[] = [];
+	private timer: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly capacity: number,
+		private readonly refillPerSecond: number
+	) {
+		this.tokens = capacity;
+	}
+
+	/**
+	 * Aguarda uma ficha disponível
+	 */
+	take(): Promise<void> {
+		return new Promise((resolve) => {
+			this.waiting.push(resolve);
+			this.drain();
+		});
+	}
+
+	/**
+	 * Requisições aguardando ficha
+	 */
+	get pending(): number {
+		return this.waiting.length;
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond
+		);
+		this.updatedAt = now;
+	}
+
+	/**
+	 * Libera quem está esperando enquanto houver fichas e agenda a próxima reposição
+	 */
+	private drain(): void {
+		this.refill();
+
+		while (this.waiting.length > 0 && this.tokens >= 1) {
+			this.tokens -= 1;
+			this.waiting.shift()!();
+		}
+
+		if (this.waiting.length > 0 && !this.timer) {
+			const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.drain();
+			}, waitMs);
+		}
+	}
+}